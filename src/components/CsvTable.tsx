@@ -1,22 +1,30 @@
 import { useState, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { CsvDocument } from '@/lib/csv';
+import { baseFileName } from '@/lib/download';
+import { DATASET_FORMATS, DatasetFormat, downloadDataset, rowsWithVisibleTables } from '@/lib/datasetExport';
+
 interface CsvTableProps {
   filePath: string;
-  csvData: string[][];
+  csvData: CsvDocument;
   fileName: string;
+  /** Tables drawn in the graph, or null when it is not shown. */
+  visibleTables: Set<string> | null;
 }
 
-const CsvTable = ({ filePath, csvData, fileName }: CsvTableProps) => {
+const CsvTable = ({ filePath, csvData, fileName, visibleTables }: CsvTableProps) => {
   const [currentPage, setCurrentPage] = useState(1);
+  const [downloadFormat, setDownloadFormat] = useState<DatasetFormat>('csv');
+  const [downloadRows, setDownloadRows] = useState<'all' | 'visible'>('all');
   const rowsPerPage = 10;
 
   const { headers, rows, totalPages, filteredRowCount } = useMemo(() => {
-    if (csvData.length === 0) return { headers: [], rows: [], totalPages: 0, filteredRowCount: 0 };
+    if (csvData.headers.length === 0) return { headers: [], rows: [], totalPages: 0, filteredRowCount: 0 };
     
-    const headers = csvData[0] || [];
-    const dataRows = csvData.slice(1);
+    const { headers, rows: dataRows } = csvData;
 
     const filteredRowCount = dataRows.length;
     const totalPages = Math.ceil(dataRows.length / rowsPerPage);
@@ -36,15 +44,61 @@ const CsvTable = ({ filePath, csvData, fileName }: CsvTableProps) => {
     setCurrentPage(prev => Math.min(prev + 1, totalPages));
   };
 
+  const handleDownload = () => {
+    const onlyVisible = downloadRows === 'visible' && visibleTables;
+    downloadDataset(
+      onlyVisible ? rowsWithVisibleTables(csvData, visibleTables) : csvData,
+      downloadFormat,
+      `${baseFileName(fileName)}-${onlyVisible ? 'visible' : 'filtered'}`
+    );
+  };
+
   return (
     <div className="w-full space-y-6">
       {/* Data Table */}
       <Card className="overflow-hidden">
-        <div className="p-4 border-b">
-          <h3 className="text-lg font-semibold">Data Preview</h3>
-          <p className="text-sm text-muted-foreground">
-            Showing {Math.min(rowsPerPage, rows.length)} of {filteredRowCount} rows
-          </p>
+        <div className="p-4 border-b flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Data Preview</h3>
+            <p className="text-sm text-muted-foreground">
+              Showing {Math.min(rowsPerPage, rows.length)} of {filteredRowCount} rows
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={downloadRows} onValueChange={value => setDownloadRows(value as 'all' | 'visible')}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All filtered rows</SelectItem>
+                <SelectItem value="visible" disabled={!visibleTables}>
+                  Rows visible in graph
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={downloadFormat} onValueChange={value => setDownloadFormat(value as DatasetFormat)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATASET_FORMATS.map(({ format, label }) => (
+                  <SelectItem key={format} value={format}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownload}
+              disabled={headers.length === 0}
+              className="flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Download
+            </Button>
+          </div>
         </div>
         
         <div className="overflow-x-auto">
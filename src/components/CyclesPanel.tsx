@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight, Download, RefreshCw } from 'lucide-react';
+import { serializeCsv } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+import { LineageCycle, cyclesToCsvRecords } from '@/lib/cycles';
+
+interface CyclesPanelProps {
+  cycles: LineageCycle[];
+  onSelectCycle: (tables: string[]) => void;
+}
+
+const CyclesPanel = ({ cycles, onSelectCycle }: CyclesPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = () => {
+    downloadFile('lineage-cycles.csv', serializeCsv(cyclesToCsvRecords(cycles)), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Card className="p-4 border-destructive/30">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          className="flex items-center gap-2 text-sm font-semibold text-foreground"
+          onClick={() => setIsOpen(open => !open)}
+        >
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <RefreshCw className="h-4 w-4 text-destructive" />
+          Circular lineage
+          <Badge variant="destructive">{cycles.length}</Badge>
+        </button>
+        <Button variant="outline" size="sm" onClick={handleExport} className="flex items-center gap-2">
+          <Download className="h-4 w-4" />
+          Export Cycles
+        </Button>
+      </div>
+
+      {isOpen && (
+        <ul className="mt-3 space-y-2 max-h-64 overflow-auto">
+          {cycles.map((cycle, index) => (
+            <li key={cycle.tables.join('\n')}>
+              <button
+                type="button"
+                className="w-full text-left rounded-md px-3 py-2 hover:bg-muted/50 transition-colors"
+                onClick={() => onSelectCycle(cycle.tables)}
+              >
+                <div className="text-xs font-medium text-foreground">
+                  Cycle {index + 1}: {cycle.tables.length} table{cycle.tables.length === 1 ? '' : 's'},{' '}
+                  {cycle.edgeCount} edge{cycle.edgeCount === 1 ? '' : 's'}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">{cycle.path.join(' → ')}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default CyclesPanel;
@@ -4,35 +4,67 @@ import { Input } from '@/components/ui/input';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ChevronDown, Search, Eye } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, Search, Eye, EyeOff, Route, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DEFAULT_PATH_LIMIT, PathQuery } from '@/lib/pathFinding';
+import { HideRule, describeHideRule, hideRuleKey, patternError } from '@/lib/hideRules';
+import TableSearchSelect from './TableSearchSelect';
 
 export interface FilterState {
   [columnName: string]: string[];
 }
 
 interface DataLineageFiltersProps {
-  data: Record<string, any>[];
+  /** Values each column can take given the filters on the other columns. */
+  availableValues: Record<string, string[]>;
   columns: string[];
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
   hiddenNodes: Set<string>;
   onHiddenNodesChange: (hiddenNodes: Set<string>) => void;
+  hideRules: HideRule[];
+  onHideRulesChange: (hideRules: HideRule[]) => void;
+  pathQuery: PathQuery | null;
+  onPathQueryChange: (pathQuery: PathQuery | null) => void;
 }
 
 const FILTERS_STORAGE_KEY = 'lineageFilters';
 
+type RuleKind = 'glob' | 'regex' | 'type' | 'leaf' | 'degreeOne' | 'between';
+
+const RULE_KINDS: { kind: RuleKind; label: string }[] = [
+  { kind: 'glob', label: 'Name matches glob' },
+  { kind: 'regex', label: 'Name matches regex' },
+  { kind: 'type', label: 'All tables of type' },
+  { kind: 'leaf', label: 'All leaf tables' },
+  { kind: 'degreeOne', label: 'All tables with one neighbour' },
+  { kind: 'between', label: 'Tables between two marts' },
+];
+
 const DataLineageFilters: React.FC<DataLineageFiltersProps> = ({
-  data,
+  availableValues,
   columns,
   filters,
   onFiltersChange,
   hiddenNodes,
   onHiddenNodesChange,
+  hideRules,
+  onHideRulesChange,
+  pathQuery,
+  onPathQueryChange,
 }) => {
   const [searchTerms, setSearchTerms] = useState<Record<string, string>>({});
   const [openPopovers, setOpenPopovers] = useState<Record<string, boolean>>({});
   const [selectedHiddenNode, setSelectedHiddenNode] = useState<string>('');
+  const [ruleKind, setRuleKind] = useState<RuleKind>('glob');
+  const [rulePattern, setRulePattern] = useState('');
+  const [ruleTableType, setRuleTableType] = useState('');
+  const [ruleBoundaryType, setRuleBoundaryType] = useState('');
+  const [pathSource, setPathSource] = useState(pathQuery?.source || '');
+  const [pathTarget, setPathTarget] = useState(pathQuery?.target || '');
+  const [includeAllPaths, setIncludeAllPaths] = useState(pathQuery?.includeAllPaths || false);
+  const [pathLimit, setPathLimit] = useState(pathQuery?.limit || DEFAULT_PATH_LIMIT);
 
   // 🔹 Load filters from localStorage on mount
   useEffect(() => {
@@ -58,21 +90,8 @@ const DataLineageFilters: React.FC<DataLineageFiltersProps> = ({
     }
   }, [filters]);
 
-  // 🔹 Get filtered data based on current filter selections
-  const getFilteredData = (excludeColumn?: string) => {
-    return data.filter(row => {
-      return Object.entries(filters).every(([col, selectedValues]) => {
-        if (col === excludeColumn) return true;
-        if (selectedValues.length === 0) return true;
-        return selectedValues.includes(String(row[col]));
-      });
-    });
-  };
-
   const getAvailableValues = (columnName: string) => {
-    const filteredData = getFilteredData(columnName);
-    const values = [...new Set(filteredData.map(row => String(row[columnName])))];
-    return values.sort();
+    return availableValues[columnName] || [];
   };
 
   const getFilteredValues = (columnName: string, values: string[]) => {
@@ -130,25 +149,88 @@ const DataLineageFilters: React.FC<DataLineageFiltersProps> = ({
   };
 
   const allTableNames = useMemo(() => {
-    const names = new Set<string>();
-    data.forEach(row => {
-      if (row.childTableName) names.add(row.childTableName);
-      if (row.parentTableName) names.add(row.parentTableName);
-    });
+    const names = new Set<string>([
+      ...(availableValues.childTableName || []),
+      ...(availableValues.parentTableName || []),
+    ]);
+    names.delete('');
     return Array.from(names).sort();
-  }, [data]);
+  }, [availableValues]);
+
+  const allTableTypes = useMemo(() => {
+    const types = new Set<string>([
+      ...(availableValues.childTableType || []),
+      ...(availableValues.parentTableType || []),
+    ]);
+    types.delete('');
+    return Array.from(types).sort();
+  }, [availableValues]);
 
   const hiddenNodesArray = Array.from(hiddenNodes);
 
+  // The rule described by the inputs, or null while one is missing
+  const newRule: HideRule | null = (() => {
+    switch (ruleKind) {
+      case 'glob':
+      case 'regex':
+        return rulePattern ? { kind: 'pattern', syntax: ruleKind, pattern: rulePattern } : null;
+      case 'type':
+        return ruleTableType ? { kind: 'type', tableType: ruleTableType } : null;
+      case 'between':
+        return ruleTableType && ruleBoundaryType
+          ? { kind: 'between', tableType: ruleTableType, boundaryType: ruleBoundaryType }
+          : null;
+      default:
+        return { kind: ruleKind };
+    }
+  })();
+  const ruleError = newRule?.kind === 'pattern' ? patternError(newRule.syntax, newRule.pattern) : null;
+
+  const handleAddRule = () => {
+    if (!newRule || ruleError) return;
+    const key = hideRuleKey(newRule);
+    if (!hideRules.some(rule => hideRuleKey(rule) === key)) onHideRulesChange([...hideRules, newRule]);
+    setRulePattern('');
+  };
+
+  const handleRemoveRule = (removed: HideRule) => {
+    const key = hideRuleKey(removed);
+    onHideRulesChange(hideRules.filter(rule => hideRuleKey(rule) !== key));
+  };
+
+  const handleUnhideAll = () => {
+    onHiddenNodesChange(new Set());
+    onHideRulesChange([]);
+    setSelectedHiddenNode('');
+  };
+
+  const handleTracePath = () => {
+    onPathQueryChange({ source: pathSource, target: pathTarget, includeAllPaths, limit: pathLimit });
+  };
+
+  const handleClearPath = () => {
+    setPathSource('');
+    setPathTarget('');
+    onPathQueryChange(null);
+  };
+
   return (
     <div className="p-4 border-b bg-card">
       <h3 className="text-lg font-semibold mb-4 text-foreground">Data Filters</h3>
 
       {/* Hidden Nodes Controls */}
-      {hiddenNodesArray.length > 0 && (
-        <div className="mb-6 p-4 border rounded-lg bg-muted/50">
-          <h4 className="text-sm font-medium mb-3 text-foreground">Hidden Nodes ({hiddenNodesArray.length})</h4>
-          <div className="flex items-center gap-2">
+      <div className="mb-6 p-4 border rounded-lg bg-muted/50">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-foreground">Hidden Nodes ({hiddenNodesArray.length})</h4>
+          {(hiddenNodesArray.length > 0 || hideRules.length > 0) && (
+            <Button onClick={handleUnhideAll} variant="outline" size="sm" className="flex items-center gap-2">
+              <Eye className="h-4 w-4" />
+              Unhide All
+            </Button>
+          )}
+        </div>
+        {hiddenNodesArray.length > 0 && (
+          <div className="flex items-center gap-2 mb-3">
             <Select value={selectedHiddenNode} onValueChange={setSelectedHiddenNode}>
               <SelectTrigger className="w-[200px]">
                 <SelectValue placeholder="Select hidden node" />
@@ -171,8 +253,144 @@ const DataLineageFilters: React.FC<DataLineageFiltersProps> = ({
               Show Node
             </Button>
           </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={ruleKind} onValueChange={value => setRuleKind(value as RuleKind)}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_KINDS.map(({ kind, label }) => (
+                <SelectItem key={kind} value={kind}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(ruleKind === 'glob' || ruleKind === 'regex') && (
+            <Input
+              placeholder={ruleKind === 'glob' ? 'e.g. stg_*' : 'e.g. ^tmp_\\d+$'}
+              value={rulePattern}
+              onChange={(e) => setRulePattern(e.target.value)}
+              className="h-9 w-[220px]"
+            />
+          )}
+          {(ruleKind === 'type' || ruleKind === 'between') && (
+            <Select value={ruleTableType} onValueChange={setRuleTableType}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Table type" />
+              </SelectTrigger>
+              <SelectContent>
+                {allTableTypes.map(tableType => (
+                  <SelectItem key={tableType} value={tableType}>
+                    {tableType}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {ruleKind === 'between' && (
+            <>
+              <span className="text-sm text-muted-foreground">between</span>
+              <Select value={ruleBoundaryType} onValueChange={setRuleBoundaryType}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Mart type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allTableTypes.map(tableType => (
+                    <SelectItem key={tableType} value={tableType}>
+                      {tableType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          <Button
+            onClick={handleAddRule}
+            disabled={!newRule || ruleError !== null}
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <EyeOff className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+        {ruleError && rulePattern && <p className="mt-2 text-xs text-destructive">{ruleError}</p>}
+        {(ruleKind === 'glob' || ruleKind === 'regex') && !(ruleError && rulePattern) && (
+          <p className="mt-2 text-xs text-muted-foreground">Name patterns ignore case.</p>
+        )}
+        {hideRules.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {hideRules.map(rule => (
+              <Badge key={hideRuleKey(rule)} variant="secondary" className="flex items-center gap-1 pr-1">
+                {describeHideRule(rule)}
+                <button
+                  type="button"
+                  title="Remove rule"
+                  onClick={() => handleRemoveRule(rule)}
+                  className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Trace Path */}
+      <div className="mb-6 p-4 border rounded-lg bg-muted/50">
+        <h4 className="text-sm font-medium mb-3 text-foreground">Trace Path</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <TableSearchSelect
+            tableNames={allTableNames}
+            value={pathSource}
+            onChange={setPathSource}
+            placeholder="From table"
+          />
+          <span className="text-muted-foreground">→</span>
+          <TableSearchSelect
+            tableNames={allTableNames}
+            value={pathTarget}
+            onChange={setPathTarget}
+            placeholder="To table"
+          />
+          <div className="flex items-center space-x-2 ml-2">
+            <Checkbox
+              id="trace-all-paths"
+              checked={includeAllPaths}
+              onCheckedChange={(checked) => setIncludeAllPaths(checked === true)}
+            />
+            <label htmlFor="trace-all-paths" className="text-sm leading-none cursor-pointer">
+              All paths, up to
+            </label>
+            <Input
+              type="number"
+              min={1}
+              value={pathLimit}
+              onChange={(e) => setPathLimit(Math.max(1, Number(e.target.value) || 1))}
+              disabled={!includeAllPaths}
+              className="h-8 w-20"
+            />
+          </div>
+          <Button
+            onClick={handleTracePath}
+            disabled={!pathSource || !pathTarget || pathSource === pathTarget}
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <Route className="h-4 w-4" />
+            Trace
+          </Button>
+          {pathQuery && (
+            <Button onClick={handleClearPath} variant="outline" size="sm" className="flex items-center gap-2">
+              <X className="h-4 w-4" />
+              Clear
+            </Button>
+          )}
         </div>
-      )}
+      </div>
 
       <div className="flex flex-wrap gap-4">
         {columns.map(columnName => {
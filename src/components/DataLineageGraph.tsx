@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ReactFlow,
   Node,
@@ -9,17 +9,71 @@ import {
   useEdgesState,
   MarkerType,
   NodeMouseHandler,
+  EdgeMouseHandler,
+  ReactFlowInstance,
+  Panel,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderClosed, FolderOpen, Maximize2 } from 'lucide-react';
 import TableNode from './TableNode';
+import GroupNode from './GroupNode';
 import RelationshipEdge from './RelationshipEdge';
+import CyclesPanel from './CyclesPanel';
+import ImpactPanel from './ImpactPanel';
+import TracePathPanel from './TracePathPanel';
+import TableSearchSelect from './TableSearchSelect';
+import TableDetailsDialog, { TableDetails } from './TableDetailsDialog';
+import LineageContextMenu, { ContextMenuTarget } from './LineageContextMenu';
+import GraphExportMenu from './GraphExportMenu';
+import { FilterState } from './DataLineageFilters';
 import { useLineageState } from '../hooks/useLineageState';
+import { useGraphLayout } from '@/hooks/useGraphLayout';
+import { useToast } from '@/hooks/use-toast';
+import { CsvDocument } from '@/lib/csv';
+import { LayoutEdge, LayoutNode } from '@/lib/graphLayout';
+import { measureTableNode } from '@/lib/measureTableNode';
+import { cycleMembership, findCycles, isCycleEdge } from '@/lib/cycles';
+import { ImpactDirection, analyzeImpact } from '@/lib/impactAnalysis';
+import { PathQuery, findPaths } from '@/lib/pathFinding';
+import { findNeighbourhood, isNeighbourhoodBoundary } from '@/lib/neighbourhood';
+import { HideRule, describeHideRule, evaluateHideRules } from '@/lib/hideRules';
+import { GraphExportOptions, exportGraph } from '@/lib/graphExport';
+import { GRAPH_TEXT_FORMATS, GraphTextFormat, buildExportGraph, serializeGraph } from '@/lib/exporters';
+import { buildLineageHtml } from '@/lib/htmlExport';
+import { downloadFile } from '@/lib/download';
+import {
+  GroupingMode,
+  TableGroup,
+  buildTableGroups,
+  groupTables,
+  groupingColumns,
+  groupingModeValue,
+  parseGroupingModeValue,
+} from '@/lib/tableGroups';
+import {
+  ColumnPath,
+  buildColumnLinks,
+  columnHandleId,
+  columnKey,
+  isOnColumnPath,
+  traceColumnPath,
+} from '@/lib/columnLineage';
 
 interface DataLineageGraphProps {
-  csvData: string[][];
+  csvData: CsvDocument;
   hiddenNodes: Set<string>;
   onHiddenNodesChange: (hiddenNodes: Set<string>) => void;
+  hideRules: HideRule[];
+  onVisibleTablesChange: (visibleTables: Set<string>) => void;
+  pathQuery: PathQuery | null;
+  onPathQueryChange: (pathQuery: PathQuery | null) => void;
+  onHideRelationship: (relationship: string) => void;
+  onFilterToRelationship: (relationship: string) => void;
+  filters: FilterState;
+  sourceName: string;
 }
 
 interface TableData {
@@ -28,18 +82,125 @@ interface TableData {
   relationship: string;
   parentTableName: string;
   parentTableType: string;
+  childNamespace: string;
+  parentNamespace: string;
+  sourceFile: string;
+  childColumnName: string;
+  parentColumnName: string;
+}
+
+interface TableInfo {
+  type: string;
+  /** Every distinct type the table was given; more than one is a conflict. */
+  types: string[];
+  namespace: string;
+  children: string[];
+  parents: string[];
+  sourceFiles: Set<string>;
+  columns: Set<string>;
+}
+
+interface SelectedColumn {
+  tableName: string;
+  columnName: string;
 }
 
+interface FocusState {
+  tableName: string;
+  radius: number;
+  /** Boundary tables whose neighbours were added one hop at a time. */
+  expandedTables: string[];
+}
+
+const FOCUS_RADII = [1, 2, 3, 4, 5];
+
+interface ImpactSelection {
+  tableName: string;
+  direction: ImpactDirection;
+  maxDepth: number | null;
+}
+
+// Connect visible tables linked through a run of hidden tables. Each pair is
+// connected once, labelled with the shortest hidden path between them.
+const findBypassEdges = (tableMap: Map<string, TableInfo>, hiddenNodes: Set<string>) => {
+  const bypassEdges: { source: string; target: string; relationship: string }[] = [];
+
+  // Visible tables feeding at least one hidden table, in a stable order
+  const sources = new Set<string>();
+  hiddenNodes.forEach(hiddenNode => {
+    tableMap.get(hiddenNode)?.parents.forEach(parent => {
+      if (!hiddenNodes.has(parent)) sources.add(parent);
+    });
+  });
+
+  Array.from(sources).sort().forEach(source => {
+    // Breadth-first through hidden tables only, remembering how each was reached
+    const hiddenPaths = new Map<string, string[]>();
+    const queue: string[] = [];
+    tableMap.get(source)!.children.forEach(child => {
+      if (hiddenNodes.has(child) && !hiddenPaths.has(child)) {
+        hiddenPaths.set(child, [child]);
+        queue.push(child);
+      }
+    });
+
+    const reached = new Set<string>();
+    for (let head = 0; head < queue.length; head++) {
+      const hiddenNode = queue[head];
+      const path = hiddenPaths.get(hiddenNode)!;
+      tableMap.get(hiddenNode)?.children.forEach(child => {
+        if (hiddenNodes.has(child)) {
+          if (!hiddenPaths.has(child)) {
+            hiddenPaths.set(child, [...path, child]);
+            queue.push(child);
+          }
+        } else if (!reached.has(child)) {
+          reached.add(child);
+          bypassEdges.push({ source, target: child, relationship: `via ${path.join(' → ')}` });
+        }
+      });
+    }
+  });
+
+  return bypassEdges;
+};
+
+const CYCLE_COLOR = 'hsl(var(--destructive))';
+
 const nodeTypes = {
   table: TableNode,
+  tableGroup: GroupNode,
 };
 
 const edgeTypes = {
   relationship: RelationshipEdge as any,
 };
 
-const DataLineageGraph = ({ csvData, hiddenNodes, onHiddenNodesChange }: DataLineageGraphProps) => {
+const DataLineageGraph = ({
+  csvData,
+  hiddenNodes,
+  onHiddenNodesChange,
+  hideRules,
+  onVisibleTablesChange,
+  pathQuery,
+  onPathQueryChange,
+  onHideRelationship,
+  onFilterToRelationship,
+  filters,
+  sourceName,
+}: DataLineageGraphProps) => {
   const { state, updateState, currentCsvHash } = useLineageState(csvData);
+  const { toast } = useToast();
+
+  // Tables showing their columns, and the column whose path is highlighted
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const [selectedColumn, setSelectedColumn] = useState<SelectedColumn | null>(null);
+  const [impactSelection, setImpactSelection] = useState<ImpactSelection | null>(null);
+  const [focus, setFocus] = useState<FocusState | null>(null);
+  const [grouping, setGrouping] = useState<GroupingMode | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [menuTarget, setMenuTarget] = useState<ContextMenuTarget | null>(null);
+  const [detailsTable, setDetailsTable] = useState<string | null>(null);
 
   // Check if we're loading the same CSV file
   useEffect(() => {
@@ -48,7 +209,7 @@ const DataLineageGraph = ({ csvData, hiddenNodes, onHiddenNodesChange }: DataLin
       onHiddenNodesChange(new Set(state.hiddenNodes));
     } else {
       // New CSV file, update hash
-      updateState({ csvHash: currentCsvHash, hiddenNodes: [], nodePositions: {} });
+      updateState({ csvHash: currentCsvHash, hiddenNodes: [], nodePositions: {}, pinnedNodes: [] });
     }
   }, [currentCsvHash]);
 
@@ -56,6 +217,9 @@ const DataLineageGraph = ({ csvData, hiddenNodes, onHiddenNodesChange }: DataLin
   const handleNodesChange = useCallback((changes: any[]) => {
     onNodesChange(changes);
     
+    // Positions inside groups are relative to the group, so they are not saved
+    if (grouping) return;
+
     // Save position changes
     changes.forEach(change => {
       if (change.type === 'position' && change.position) {
@@ -67,187 +231,619 @@ const DataLineageGraph = ({ csvData, hiddenNodes, onHiddenNodesChange }: DataLin
         });
       }
     });
-  }, [state.nodePositions, updateState]);
+  }, [state.nodePositions, updateState, grouping]);
 
   // Save hidden nodes when they change
   useEffect(() => {
     updateState({ hiddenNodes: Array.from(hiddenNodes) });
   }, [hiddenNodes]);
 
+  const pinnedNodes = useMemo(() => new Set(state.pinnedNodes), [state.pinnedNodes]);
+
   // Parse CSV data using header row
   const tableData: TableData[] = useMemo(() => {
-    if (csvData.length === 0) return [];
+    if (csvData.headers.length === 0) return [];
 
-    const headers = csvData[0].map(h => h.toLowerCase().trim());
+    const headers = csvData.headers.map(h => h.toLowerCase().trim());
     const columnIndexes = {
       childTableName: headers.indexOf('childtablename'),
-      childTableType: headers.indexOf('childtabletype'),
       relationship: headers.indexOf('relationship'),
       parentTableName: headers.indexOf('parenttablename'),
-      parentTableType: headers.indexOf('parenttabletype'),
     };
 
+    // Optional columns: table types, which mapping may leave out, and those
+    // from OpenLineage imports or column-level lineage
+    const childTypeIndex = headers.indexOf('childtabletype');
+    const parentTypeIndex = headers.indexOf('parenttabletype');
+    const childNamespaceIndex = headers.indexOf('childnamespace');
+    const parentNamespaceIndex = headers.indexOf('parentnamespace');
+    const sourceFileIndex = headers.indexOf('sourcefile');
+    const childColumnIndex = headers.indexOf('childcolumnname');
+    const parentColumnIndex = headers.indexOf('parentcolumnname');
+
     // Validate if all required columns are present
     if (Object.values(columnIndexes).some(index => index === -1)) {
       console.error('Missing required columns in CSV header');
       return [];
     }
 
-    return csvData.slice(1).map(row => ({
+    return csvData.rows.map(row => ({
       childTableName: row[columnIndexes.childTableName] || '',
-      childTableType: row[columnIndexes.childTableType] || '',
+      childTableType: row[childTypeIndex] || '',
       relationship: row[columnIndexes.relationship] || '',
       parentTableName: row[columnIndexes.parentTableName] || '',
-      parentTableType: row[columnIndexes.parentTableType] || '',
+      parentTableType: row[parentTypeIndex] || '',
+      childNamespace: row[childNamespaceIndex] || '',
+      parentNamespace: row[parentNamespaceIndex] || '',
+      sourceFile: row[sourceFileIndex] || '',
+      childColumnName: row[childColumnIndex] || '',
+      parentColumnName: row[parentColumnIndex] || '',
     }));
   }, [csvData]);
 
-  // Create nodes and edges
-  const { initialNodes, initialEdges } = useMemo(() => {
-    if (tableData.length === 0) return { initialNodes: [], initialEdges: [] };
-    
-    const tableMap = new Map<string, { type: string; children: string[]; parents: string[] }>();
+  const columnLinks = useMemo(() => buildColumnLinks(
+    tableData.filter(({ childTableName, childColumnName, parentTableName, parentColumnName }) =>
+      childTableName && childColumnName && parentTableName && parentColumnName
+    )
+  ), [tableData]);
+
+  const columnPath: ColumnPath | null = useMemo(() => {
+    if (!selectedColumn) return null;
+    return traceColumnPath(columnLinks, selectedColumn.tableName, selectedColumn.columnName);
+  }, [columnLinks, selectedColumn]);
+
+  const handleToggleExpand = useCallback((tableName: string) => {
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(tableName)) next.delete(tableName);
+      else next.add(tableName);
+      return next;
+    });
+  }, []);
+
+  const handleColumnClick = useCallback((tableName: string, columnName: string) => {
+    const isSelected = selectedColumn?.tableName === tableName && selectedColumn.columnName === columnName;
+    if (isSelected) {
+      setSelectedColumn(null);
+      return;
+    }
+
+    setSelectedColumn({ tableName, columnName });
+    // Expand every table on the path so the column edges can be followed
+    const path = traceColumnPath(columnLinks, tableName, columnName);
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      [...path.upstream, ...path.downstream].forEach(key => next.add(JSON.parse(key)[0]));
+      return next;
+    });
+  }, [columnLinks, selectedColumn]);
+
+  // Tables with their relationships
+  const tableMap = useMemo(() => {
+    const tableMap = new Map<string, TableInfo>();
+    const linkedPairs = new Set<string>();
+
+    const addTable = (tableName: string, tableType: string, namespace: string, sourceFile: string, columnName: string) => {
+      let tableInfo = tableMap.get(tableName);
+      if (!tableInfo) {
+        tableInfo = {
+          type: tableType,
+          types: [],
+          namespace,
+          children: [],
+          parents: [],
+          sourceFiles: new Set(),
+          columns: new Set(),
+        };
+        tableMap.set(tableName, tableInfo);
+      }
+      if (!tableInfo.types.includes(tableType)) tableInfo.types.push(tableType);
+      if (sourceFile) tableInfo.sourceFiles.add(sourceFile);
+      if (columnName) tableInfo.columns.add(columnName);
+    };
     
     // Build table relationships
-    tableData.forEach(({ childTableName, childTableType, parentTableName, parentTableType }) => {
+    tableData.forEach(({
+      childTableName,
+      childTableType,
+      parentTableName,
+      parentTableType,
+      childNamespace,
+      parentNamespace,
+      sourceFile,
+      childColumnName,
+      parentColumnName,
+    }) => {
       // Add parent table
-      if (!tableMap.has(parentTableName)) {
-        tableMap.set(parentTableName, { type: parentTableType, children: [], parents: [] });
-      }
+      if (parentTableName) addTable(parentTableName, parentTableType, parentNamespace, sourceFile, parentColumnName);
       
       // Add child table
-      if (!tableMap.has(childTableName)) {
-        tableMap.set(childTableName, { type: childTableType, children: [], parents: [] });
-      }
+      if (childTableName) addTable(childTableName, childTableType, childNamespace, sourceFile, childColumnName);
       
-      // Update relationships
-      tableMap.get(parentTableName)!.children.push(childTableName);
-      tableMap.get(childTableName)!.parents.push(parentTableName);
+      // Update relationships (rows missing either name are reported by validation),
+      // and a pair listed by several files or relationships is linked once
+      const pairKey = JSON.stringify([parentTableName, childTableName]);
+      if (parentTableName && childTableName && !linkedPairs.has(pairKey)) {
+        linkedPairs.add(pairKey);
+        tableMap.get(parentTableName)!.children.push(childTableName);
+        tableMap.get(childTableName)!.parents.push(parentTableName);
+      }
     });
 
-    // Filter out hidden nodes
-    const visibleTables = Array.from(tableMap.keys()).filter(tableName => !hiddenNodes.has(tableName));
+    return tableMap;
+  }, [tableData]);
 
-    const nodes: Node[] = [];
-    const edges: Edge[] = [];
+  // Tables hidden by hand or by a rule; only the former are saved
+  const allHiddenNodes = useMemo(
+    () => new Set([...hiddenNodes, ...evaluateHideRules(tableMap, hideRules)]),
+    [hiddenNodes, tableMap, hideRules]
+  );
 
-    // Create bypass edges for hidden nodes
-    const createBypassEdges = () => {
-      const bypassEdges: { source: string; target: string; relationship: string }[] = [];
-      
-      hiddenNodes.forEach(hiddenNode => {
-        const hiddenNodeInfo = tableMap.get(hiddenNode);
-        if (!hiddenNodeInfo) return;
-        
-        // Connect each parent of hidden node to each child of hidden node
-        hiddenNodeInfo.parents.forEach(parent => {
-          if (!hiddenNodes.has(parent)) { // Only if parent is visible
-            hiddenNodeInfo.children.forEach(child => {
-              if (!hiddenNodes.has(child)) { // Only if child is visible
-                bypassEdges.push({
-                  source: parent,
-                  target: child,
-                  relationship: `via ${hiddenNode}`
-                });
-              }
-            });
-          }
-        });
+  // Focus mode: only the neighbourhood of one table is drawn
+  const activeFocus = useMemo(
+    () => (focus && tableMap.has(focus.tableName) ? focus : null),
+    [focus, tableMap]
+  );
+  const focusTables = useMemo(() => {
+    if (!activeFocus) return null;
+    return findNeighbourhood(tableMap, [
+      { tableName: activeFocus.tableName, radius: activeFocus.radius },
+      ...activeFocus.expandedTables.map(tableName => ({ tableName, radius: 1 })),
+    ], allHiddenNodes);
+  }, [tableMap, activeFocus, allHiddenNodes]);
+
+  // Tables that are drawn: not hidden, and in focus if focus mode is on
+  const visibleTables = useMemo(() => new Set(
+    Array.from(tableMap.keys()).filter(tableName =>
+      !allHiddenNodes.has(tableName) && (!focusTables || focusTables.has(tableName))
+    )
+  ), [tableMap, allHiddenNodes, focusTables]);
+
+  useEffect(() => {
+    onVisibleTablesChange(visibleTables);
+  }, [visibleTables, onVisibleTablesChange]);
+
+  // Refit the view once a changed focus or grouping has been laid out
+  const refitPendingRef = useRef(false);
+
+  const bypassEdges = useMemo(
+    () => findBypassEdges(tableMap, allHiddenNodes).filter(({ source, target }) => visibleTables.has(source) && visibleTables.has(target)),
+    [tableMap, allHiddenNodes, visibleTables]
+  );
+
+  // Every table-level edge that is drawn, bypasses included
+  const visibleEdges = useMemo(() => {
+    const visibleEdges: LayoutEdge[] = [];
+    visibleTables.forEach(tableName => {
+      tableMap.get(tableName)!.children.forEach(child => {
+        if (visibleTables.has(child)) visibleEdges.push({ source: tableName, target: child });
       });
-      
-      return bypassEdges;
-    };
+    });
+    bypassEdges.forEach(({ source, target }) => visibleEdges.push({ source, target }));
+    return visibleEdges;
+  }, [tableMap, visibleTables, bypassEdges]);
 
-    const bypassEdges = createBypassEdges();
+  // Groups of visible tables, each drawn as a container or, collapsed, as one node
+  const groupingOptions = useMemo(() => groupingColumns(csvData.headers), [csvData.headers]);
+  const tableGroups = useMemo(() => {
+    if (!grouping) return [];
+    return buildTableGroups(Array.from(visibleTables), groupTables(grouping, tableMap, csvData));
+  }, [grouping, visibleTables, tableMap, csvData]);
 
-    // Create nodes with proper positioning
-    const levels = new Map<string, number>();
-    const visited = new Set<string>();
-    
-    // Calculate levels (depth from root nodes)
-    const calculateLevel = (tableName: string, level = 0): number => {
-      if (visited.has(tableName)) return levels.get(tableName) || 0;
-      
-      visited.add(tableName);
-      const tableInfo = tableMap.get(tableName);
-      
-      if (!tableInfo || tableInfo.parents.length === 0) {
-        levels.set(tableName, level);
-        return level;
+  const groupOfTable = useMemo(() => {
+    const groupOfTable = new Map<string, TableGroup>();
+    tableGroups.forEach(group => group.tables.forEach(tableName => groupOfTable.set(tableName, group)));
+    return groupOfTable;
+  }, [tableGroups]);
+
+  // Node a table's edges attach to: its collapsed group, or the table itself
+  const drawnAs = useCallback((tableName: string) => {
+    const group = groupOfTable.get(tableName);
+    return group && collapsedGroups.has(group.id) ? group.id : tableName;
+  }, [groupOfTable, collapsedGroups]);
+
+  const handleGroupingChange = (value: string) => {
+    refitPendingRef.current = true;
+    setGrouping(parseGroupingModeValue(value));
+    setCollapsedGroups(new Set());
+  };
+
+  const handleToggleGroup = useCallback((groupId: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  }, []);
+
+  const allGroupsCollapsed = tableGroups.length > 0 && tableGroups.every(group => collapsedGroups.has(group.id));
+  const handleToggleAllGroups = () => {
+    refitPendingRef.current = true;
+    setCollapsedGroups(allGroupsCollapsed ? new Set() : new Set(tableGroups.map(group => group.id)));
+  };
+
+  const focusTableNames = useMemo(
+    () => Array.from(tableMap.keys()).filter(tableName => !allHiddenNodes.has(tableName)).sort(),
+    [tableMap, allHiddenNodes]
+  );
+
+  const handleFocusChange = (tableName: string, radius: number) => {
+    refitPendingRef.current = true;
+    setFocus(prev => ({
+      tableName,
+      radius,
+      // Growth from boundary tables only carries over if the centre stays the same
+      expandedTables: prev?.tableName === tableName ? prev.expandedTables : [],
+    }));
+  };
+
+  const handleExitFocus = () => {
+    refitPendingRef.current = true;
+    setFocus(null);
+  };
+
+  const handleExpandFocus = useCallback((tableName: string) => {
+    refitPendingRef.current = true;
+    setFocus(prev => {
+      if (!prev || prev.expandedTables.includes(tableName)) return prev;
+      return { ...prev, expandedTables: [...prev.expandedTables, tableName] };
+    });
+  }, []);
+
+  // Impact analysis over the whole graph, hidden tables included; it ends
+  // when filtering removes the analysed table
+  const activeImpact = useMemo(
+    () => (impactSelection && tableMap.has(impactSelection.tableName) ? impactSelection : null),
+    [impactSelection, tableMap]
+  );
+  const impacted = useMemo(() => {
+    if (!activeImpact) return [];
+    return analyzeImpact(tableMap, activeImpact.tableName, activeImpact.direction, activeImpact.maxDepth);
+  }, [tableMap, activeImpact]);
+
+  // Tables on each side of the analysed table, which belongs to both
+  const impactSides = useMemo(() => {
+    if (!activeImpact) return null;
+    const upstream = new Set([activeImpact.tableName]);
+    const downstream = new Set([activeImpact.tableName]);
+    impacted.forEach(({ tableName, direction }) => (direction === 'upstream' ? upstream : downstream).add(tableName));
+    return { upstream, downstream };
+  }, [activeImpact, impacted]);
+
+  // Paths between the traced tables, through hidden tables too
+  const tracedPaths = useMemo(() => {
+    if (!pathQuery) return null;
+    const { source, target, includeAllPaths, limit } = pathQuery;
+    return findPaths(tableMap, source, target, includeAllPaths ? limit : 1);
+  }, [tableMap, pathQuery]);
+
+  // Relationships of each linked pair, for the hops of a traced path
+  const relationshipsByPair = useMemo(() => {
+    const relationshipsByPair = new Map<string, string[]>();
+    tableData.forEach(({ parentTableName, childTableName, relationship }) => {
+      const key = JSON.stringify([parentTableName, childTableName]);
+      const relationships = relationshipsByPair.get(key);
+      if (!relationships) relationshipsByPair.set(key, [relationship]);
+      else if (!relationships.includes(relationship)) relationships.push(relationship);
+    });
+    return relationshipsByPair;
+  }, [tableData]);
+
+  // Visible pairs the traced paths pass between, directly or through hidden
+  // tables; the shortest path is drawn strongest
+  const tracedPairs = useMemo(() => {
+    if (!tracedPaths) return null;
+    const pairs = new Map<string, 'shortest' | 'other'>();
+    tracedPaths.paths.forEach((path, pathIndex) => {
+      const visible = path.filter(tableName => visibleTables.has(tableName));
+      for (let i = 1; i < visible.length; i++) {
+        const key = JSON.stringify([visible[i - 1], visible[i]]);
+        if (pathIndex === 0) pairs.set(key, 'shortest');
+        else if (!pairs.has(key)) pairs.set(key, 'other');
       }
-      
-      const maxParentLevel = Math.max(
-        ...tableInfo.parents.map(parent => calculateLevel(parent, level))
-      );
-      
-      const currentLevel = maxParentLevel + 1;
-      levels.set(tableName, currentLevel);
-      return currentLevel;
-    };
+    });
+    return pairs;
+  }, [tracedPaths, visibleTables]);
+
+  const handleAnalyzeImpact = useCallback((tableName: string) => {
+    setImpactSelection(prev => {
+      if (prev?.tableName === tableName) return null;
+      return { tableName, direction: prev?.direction || 'both', maxDepth: prev ? prev.maxDepth : null };
+    });
+  }, []);
+
+  // Layout input: visible tables sized from their labels, collapsed groups in
+  // place of their tables, and every edge that will be drawn between them
+  const { layoutNodes, layoutEdges } = useMemo(() => {
+    const layoutNodes: LayoutNode[] = [];
+    tableGroups.forEach(group => {
+      if (!collapsedGroups.has(group.id)) return;
+      layoutNodes.push({
+        id: group.id,
+        ...measureTableNode({
+          tableName: group.label,
+          tableType: `${group.tables.length} tables`,
+          columns: [],
+          expanded: false,
+          hasWarning: false,
+          hasFocusBoundary: false,
+          isPinned: false,
+        }),
+      });
+    });
+
+    visibleTables.forEach(tableName => {
+      const tableInfo = tableMap.get(tableName)!;
+      const group = groupOfTable.get(tableName);
+      if (group && collapsedGroups.has(group.id)) return;
+      layoutNodes.push({
+        id: tableName,
+        parent: group?.id,
+        ...measureTableNode({
+          tableName,
+          tableType: tableInfo.type,
+          columns: Array.from(tableInfo.columns),
+          expanded: expandedNodes.has(tableName),
+          hasWarning: tableInfo.types.length > 1,
+          hasFocusBoundary: focusTables !== null && isNeighbourhoodBoundary(tableMap, tableName, focusTables),
+          isPinned: pinnedNodes.has(tableName),
+        }),
+      });
+    });
+
+    // Edges of collapsed groups are rolled up into one per pair of nodes
+    const layoutEdges: LayoutEdge[] = [];
+    const seen = new Set<string>();
+    visibleEdges.forEach(edge => {
+      const source = drawnAs(edge.source);
+      const target = drawnAs(edge.target);
+      const key = JSON.stringify([source, target]);
+      if (seen.has(key) || (source === target && source !== edge.source)) return;
+      seen.add(key);
+      layoutEdges.push({ source, target });
+    });
+
+    return { layoutNodes, layoutEdges };
+  }, [
+    tableMap,
+    visibleTables,
+    visibleEdges,
+    focusTables,
+    expandedNodes,
+    pinnedNodes,
+    tableGroups,
+    groupOfTable,
+    collapsedGroups,
+    drawnAs,
+  ]);
+
+  const { positions: layoutPositions, isLayingOut, layoutError } = useGraphLayout(layoutNodes, layoutEdges);
+
+  useEffect(() => {
+    if (!layoutError) return;
+    toast({
+      title: 'Layout failed',
+      description: `The graph could not be laid out: ${layoutError}`,
+      variant: 'destructive',
+    });
+  }, [layoutError, toast]);
+
+  // Circular lineage among the visible tables, including cycles through hidden ones
+  const cycles = useMemo(
+    () => findCycles(Array.from(visibleTables), visibleEdges),
+    [visibleTables, visibleEdges]
+  );
+  const cycleIndexByTable = useMemo(() => cycleMembership(cycles), [cycles]);
+  const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance<Node, Edge> | null>(null);
+  const fittedHashRef = useRef<string | null>(null);
+  const hasSavedPositions = Object.keys(state.nodePositions).length > 0;
+
+  // A layout from the worker arrives after the first render, too late for the
+  // fitView prop, so fit once per file when the first layout is ready
+  useEffect(() => {
+    if (isLayingOut || !layoutPositions || !reactFlowInstance || hasSavedPositions) return;
+    if (fittedHashRef.current === currentCsvHash) return;
+    fittedHashRef.current = currentCsvHash;
+    const frame = requestAnimationFrame(() => reactFlowInstance.fitView());
+    return () => cancelAnimationFrame(frame);
+  }, [isLayingOut, layoutPositions, reactFlowInstance, hasSavedPositions, currentCsvHash]);
+
+  useEffect(() => {
+    if (isLayingOut || !layoutPositions || !reactFlowInstance || !refitPendingRef.current) return;
+    refitPendingRef.current = false;
+    const frame = requestAnimationFrame(() => reactFlowInstance.fitView({ duration: 400 }));
+    return () => cancelAnimationFrame(frame);
+  }, [isLayingOut, layoutPositions, reactFlowInstance]);
 
-    visibleTables.forEach(tableName => calculateLevel(tableName));
+  // Create nodes and edges
+  const { initialNodes, initialEdges } = useMemo(() => {
+    if (tableData.length === 0) return { initialNodes: [], initialEdges: [] };
+
+    const nodes: Node[] = [];
+    const edges: Edge[] = [];
 
-    // Group tables by level
-    const levelGroups = new Map<number, string[]>();
-    levels.forEach((level, tableName) => {
-      if (!levelGroups.has(level)) {
-        levelGroups.set(level, []);
+    // A traced path takes precedence over an impact analysis
+    const tracedTables = tracedPaths && new Set(tracedPaths.paths.flat());
+    const emphasisOf = (tableName: string) => {
+      if (tracedTables && pathQuery) {
+        if (tableName === pathQuery.source || tableName === pathQuery.target) return 'focus';
+        return tracedTables.has(tableName) ? 'related' : 'dimmed';
+      }
+      if (impactSides) {
+        if (tableName === activeImpact?.tableName) return 'focus';
+        return impactSides.upstream.has(tableName) || impactSides.downstream.has(tableName) ? 'related' : 'dimmed';
+      }
+      return undefined;
+    };
+
+    const tracedStyle = (source: string, target: string) => {
+      const traced = tracedPairs?.get(JSON.stringify([source, target]));
+      if (!traced) return null;
+      return { strokeWidth: traced === 'shortest' ? 3 : 2, stroke: 'hsl(var(--primary))' };
+    };
+    const isDimmed = (source: string, target: string) => {
+      if (tracedPairs) return !tracedPairs.has(JSON.stringify([source, target]));
+      if (impactSides) {
+        return !(impactSides.upstream.has(source) && impactSides.upstream.has(target)) &&
+          !(impactSides.downstream.has(source) && impactSides.downstream.has(target));
       }
-      levelGroups.get(level)!.push(tableName);
+      return false;
+    };
+
+    // Group nodes come first, as React Flow requires of parents
+    tableGroups.forEach(group => {
+      const box = layoutPositions?.[group.id];
+      const collapsed = collapsedGroups.has(group.id);
+      nodes.push({
+        id: group.id,
+        type: 'tableGroup',
+        position: box ? { x: box.x, y: box.y } : { x: 0, y: 0 },
+        style: box && !collapsed ? { width: box.width, height: box.height } : undefined,
+        data: {
+          groupId: group.id,
+          label: group.label,
+          tableCount: group.tables.length,
+          collapsed,
+          onToggleCollapse: handleToggleGroup,
+        },
+      });
     });
 
-    // Create nodes with calculated positions (only for visible tables)
-    levelGroups.forEach((tablesInLevel, level) => {
-      tablesInLevel.forEach((tableName, index) => {
-        if (!hiddenNodes.has(tableName)) {
-          const tableInfo = tableMap.get(tableName)!;
-          const savedPosition = state.nodePositions[tableName];
-          nodes.push({
-            id: tableName,
-            type: 'table',
-            position: savedPosition || {
-              x: level * 300,
-              y: index * 120 + (level % 2) * 60,
-            },
-            data: {
-              tableName,
-              tableType: tableInfo.type,
-              parents: tableInfo.parents.filter(p => !hiddenNodes.has(p)),
-              children: tableInfo.children.filter(c => !hiddenNodes.has(c)),
-            },
-          });
-        }
+    // Create nodes at their laid out (or user dragged) positions; inside a
+    // group, positions are relative to the group
+    layoutNodes.forEach(({ id: tableName, parent }) => {
+      if (collapsedGroups.has(tableName)) return;
+      const tableInfo = tableMap.get(tableName)!;
+      const savedPosition = grouping ? undefined : state.nodePositions[tableName];
+      const box = layoutPositions?.[tableName];
+      const parentBox = parent ? layoutPositions?.[parent] : undefined;
+      const columns = Array.from(tableInfo.columns);
+      nodes.push({
+        id: tableName,
+        type: 'table',
+        draggable: !pinnedNodes.has(tableName),
+        parentId: parent,
+        extent: parent ? 'parent' : undefined,
+        position: savedPosition ||
+          (box && { x: box.x - (parentBox?.x || 0), y: box.y - (parentBox?.y || 0) }) ||
+          { x: 0, y: 0 },
+        data: {
+          tableName,
+          tableType: tableInfo.type,
+          namespace: tableInfo.namespace,
+          sourceFiles: Array.from(tableInfo.sourceFiles),
+          conflictingTypes: tableInfo.types.length > 1 ? tableInfo.types : [],
+          parents: tableInfo.parents.filter(p => visibleTables.has(p)),
+          children: tableInfo.children.filter(c => visibleTables.has(c)),
+          columns,
+          expanded: expandedNodes.has(tableName),
+          highlightedColumns: columnPath
+            ? columns.filter(column => {
+              const key = columnKey(tableName, column);
+              return columnPath.upstream.has(key) || columnPath.downstream.has(key);
+            })
+            : [],
+          selectedColumn: selectedColumn?.tableName === tableName ? selectedColumn.columnName : undefined,
+          onToggleExpand: handleToggleExpand,
+          onColumnClick: handleColumnClick,
+          emphasis: emphasisOf(tableName),
+          onAnalyzeImpact: handleAnalyzeImpact,
+          focusBoundary: focusTables !== null && isNeighbourhoodBoundary(tableMap, tableName, focusTables),
+          onExpandFocus: handleExpandFocus,
+          pinned: pinnedNodes.has(tableName),
+        },
       });
     });
 
     // Create edges (only between visible nodes)
     let edgeIndex = 0;
+
+    // Edges touching a collapsed group, rolled up per pair of drawn nodes
+    const rolledUpEdges = new Map<string, { source: string; target: string; edges: Set<string>; relationships: Set<string> }>();
+    const rollUp = (parentTableName: string, childTableName: string, relationship: string) => {
+      const source = drawnAs(parentTableName);
+      const target = drawnAs(childTableName);
+      if (source === parentTableName && target === childTableName) return false;
+      if (source === target) return true;
+      const key = JSON.stringify([source, target]);
+      if (!rolledUpEdges.has(key)) rolledUpEdges.set(key, { source, target, edges: new Set(), relationships: new Set() });
+      const rolledUp = rolledUpEdges.get(key)!;
+      rolledUp.edges.add(JSON.stringify([parentTableName, childTableName, relationship]));
+      rolledUp.relationships.add(relationship);
+      return true;
+    };
     
-    // Add original edges between visible nodes
-    tableData.forEach(({ childTableName, relationship, parentTableName }) => {
-      if (!hiddenNodes.has(childTableName) && !hiddenNodes.has(parentTableName)) {
-        edges.push({
+    // Add original edges between visible nodes; the same edge from several
+    // files is drawn once and lists all of them. Column-level rows connect
+    // column handles when both tables are expanded, and collapse into one
+    // table-level edge otherwise.
+    const edgeByKey = new Map<string, Edge>();
+    tableData.forEach(({ childTableName, relationship, parentTableName, sourceFile, childColumnName, parentColumnName }) => {
+      if (!childTableName || !parentTableName) return;
+      if (visibleTables.has(childTableName) && visibleTables.has(parentTableName)) {
+        if (rollUp(parentTableName, childTableName, relationship)) return;
+
+        const isColumnEdge = Boolean(childColumnName && parentColumnName) &&
+          expandedNodes.has(parentTableName) && expandedNodes.has(childTableName);
+        const key = isColumnEdge
+          ? JSON.stringify([parentTableName, childTableName, relationship, parentColumnName, childColumnName])
+          : JSON.stringify([parentTableName, childTableName, relationship]);
+        const existing = edgeByKey.get(key);
+        if (existing) {
+          const sourceFiles = existing.data!.sourceFiles as string[];
+          if (sourceFile && !sourceFiles.includes(sourceFile)) sourceFiles.push(sourceFile);
+          return;
+        }
+
+        const onPath = isColumnEdge && columnPath !== null && isOnColumnPath(
+          columnPath,
+          columnKey(parentTableName, parentColumnName),
+          columnKey(childTableName, childColumnName)
+        );
+        const inCycle = isCycleEdge(cycleIndexByTable, parentTableName, childTableName);
+        const traced = tracedStyle(parentTableName, childTableName);
+        const dimmed = (columnPath !== null && !onPath) || isDimmed(parentTableName, childTableName);
+        const edge: Edge = {
           id: `e-${edgeIndex++}`,
           source: parentTableName,
           target: childTableName,
+          sourceHandle: isColumnEdge ? columnHandleId('out', parentColumnName) : undefined,
+          targetHandle: isColumnEdge ? columnHandleId('in', childColumnName) : undefined,
           type: 'relationship',
           data: {
             relationship,
             parentTableName,
             childTableName,
+            parentColumnName: isColumnEdge ? parentColumnName : undefined,
+            childColumnName: isColumnEdge ? childColumnName : undefined,
+            sourceFiles: sourceFile ? [sourceFile] : [],
+            inCycle,
           },
           markerEnd: {
             type: MarkerType.ArrowClosed,
+            color: inCycle && !onPath && !traced ? CYCLE_COLOR : undefined,
           },
-          style: {
-            strokeWidth: 2,
-          },
-        });
+          animated: inCycle,
+          style: onPath
+            ? { strokeWidth: 3, stroke: 'hsl(var(--primary))' }
+            : traced || {
+              strokeWidth: 2,
+              stroke: inCycle ? CYCLE_COLOR : undefined,
+              opacity: dimmed ? 0.25 : undefined,
+            },
+          zIndex: onPath || traced ? 1 : undefined,
+        };
+        edgeByKey.set(key, edge);
+        edges.push(edge);
       }
     });
 
     // Add bypass edges for hidden nodes
     bypassEdges.forEach(({ source, target, relationship }) => {
+      if (rollUp(source, target, relationship)) return;
+      const inCycle = isCycleEdge(cycleIndexByTable, source, target);
+      const traced = tracedStyle(source, target);
       edges.push({
         id: `e-bypass-${edgeIndex++}`,
         source,
@@ -257,23 +853,81 @@ const DataLineageGraph = ({ csvData, hiddenNodes, onHiddenNodesChange }: DataLin
           relationship,
           parentTableName: source,
           childTableName: target,
+          inCycle,
+          derived: true,
         },
         markerEnd: {
           type: MarkerType.ArrowClosed,
+          color: inCycle && !traced ? CYCLE_COLOR : undefined,
         },
         style: {
           strokeWidth: 2,
+          stroke: inCycle ? CYCLE_COLOR : undefined,
+          ...traced,
           strokeDasharray: '5,5', // Dashed line to indicate bypass
-          opacity: 0.7,
+          opacity: isDimmed(source, target) ? 0.25 : traced ? 1 : 0.7,
+        },
+        zIndex: traced ? 1 : undefined,
+      });
+    });
+
+    const groupLabels = new Map(tableGroups.map(group => [group.id, group.label]));
+    rolledUpEdges.forEach(({ source, target, edges: rolledUp, relationships }) => {
+      edges.push({
+        id: `e-group-${edgeIndex++}`,
+        source,
+        target,
+        type: 'relationship',
+        data: {
+          relationship: relationships.size === 1 ? Array.from(relationships)[0] : `${relationships.size} relationships`,
+          parentTableName: groupLabels.get(source) || source,
+          childTableName: groupLabels.get(target) || target,
+          rolledUpCount: rolledUp.size,
+          derived: true,
+        },
+        markerEnd: {
+          type: MarkerType.ArrowClosed,
+        },
+        style: {
+          // Thicker for more edges, within reason
+          strokeWidth: Math.min(2 + Math.log2(rolledUp.size), 6),
         },
       });
     });
 
     return { initialNodes: nodes, initialEdges: edges };
-  }, [tableData, hiddenNodes, state.nodePositions]);
+  }, [
+    tableData,
+    tableMap,
+    layoutNodes,
+    layoutPositions,
+    visibleTables,
+    bypassEdges,
+    focusTables,
+    state.nodePositions,
+    expandedNodes,
+    columnPath,
+    selectedColumn,
+    cycleIndexByTable,
+    activeImpact,
+    impactSides,
+    pathQuery,
+    tracedPaths,
+    tracedPairs,
+    handleToggleExpand,
+    handleColumnClick,
+    handleAnalyzeImpact,
+    handleExpandFocus,
+    pinnedNodes,
+    grouping,
+    tableGroups,
+    collapsedGroups,
+    drawnAs,
+    handleToggleGroup,
+  ]);
 
-  const [nodes, setNodes, onNodesChange] = useNodesState([]);
-  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
 
   // Update nodes and edges when filtered data changes
   const updateNodesAndEdges = useCallback(() => {
@@ -286,32 +940,255 @@ const DataLineageGraph = ({ csvData, hiddenNodes, onHiddenNodesChange }: DataLin
     updateNodesAndEdges();
   }, [updateNodesAndEdges]);
 
+  // Right-clicks pick the menu's target; the menu itself opens from the
+  // surrounding trigger unless the event was cancelled here
   const handleNodeContextMenu: NodeMouseHandler = useCallback((event, node) => {
-    event.preventDefault(); // Prevent default context menu
+    if (node.type !== 'table') {
+      event.preventDefault();
+      return;
+    }
+    setMenuTarget({ kind: 'table', tableName: node.id, pinned: pinnedNodes.has(node.id) });
+  }, [pinnedNodes]);
+
+  const handleEdgeContextMenu: EdgeMouseHandler = useCallback((event, edge) => {
+    const data = edge.data as { relationship: string; derived?: boolean } | undefined;
+    setMenuTarget({ kind: 'edge', relationship: data && !data.derived ? data.relationship : null });
+  }, []);
+
+  const hideTables = (tableNames: string[]) => {
     const newHiddenNodes = new Set(hiddenNodes);
-    newHiddenNodes.add(node.id);
+    tableNames.forEach(tableName => newHiddenNodes.add(tableName));
     onHiddenNodesChange(newHiddenNodes);
-  }, [hiddenNodes, onHiddenNodesChange]);
+  };
+
+  const handleHideLineage = (tableName: string, direction: 'upstream' | 'downstream') => {
+    hideTables(analyzeImpact(tableMap, tableName, direction, null).map(table => table.tableName));
+  };
+
+  const handleShowImpact = (tableName: string) => {
+    setImpactSelection(prev => ({
+      tableName,
+      direction: prev?.direction || 'both',
+      maxDepth: prev ? prev.maxDepth : null,
+    }));
+  };
+
+  const handleCopyName = (tableName: string) => {
+    navigator.clipboard.writeText(tableName)
+      .then(() => toast({ title: 'Copied table name', description: tableName }))
+      .catch(error => console.error('Failed to copy table name', error));
+  };
+
+  // Pinning saves the current position, which then overrides the layout
+  const handleTogglePin = (tableName: string) => {
+    if (pinnedNodes.has(tableName)) {
+      updateState({ pinnedNodes: state.pinnedNodes.filter(pinned => pinned !== tableName) });
+      return;
+    }
+    const position = reactFlowInstance?.getNode(tableName)?.position;
+    updateState({
+      pinnedNodes: [...state.pinnedNodes, tableName],
+      nodePositions: position ? { ...state.nodePositions, [tableName]: position } : state.nodePositions,
+    });
+  };
+
+  const tableDetails: TableDetails | null = useMemo(() => {
+    const tableInfo = detailsTable ? tableMap.get(detailsTable) : undefined;
+    if (!detailsTable || !tableInfo) return null;
+    return {
+      tableName: detailsTable,
+      tableType: tableInfo.type,
+      namespace: tableInfo.namespace,
+      types: tableInfo.types,
+      sourceFiles: Array.from(tableInfo.sourceFiles),
+      parents: tableInfo.parents,
+      children: tableInfo.children,
+      columns: Array.from(tableInfo.columns),
+    };
+  }, [detailsTable, tableMap]);
+
+  const handleFitTables = useCallback((tables: string[]) => {
+    reactFlowInstance?.fitView({ nodes: tables.map(id => ({ id })), duration: 400 });
+  }, [reactFlowInstance]);
+
+  const handleSelectImpactedTable = useCallback((tableName: string) => {
+    reactFlowInstance?.fitView({ nodes: [{ id: tableName }], duration: 400, maxZoom: 1 });
+  }, [reactFlowInstance]);
+
+  const graphContainerRef = useRef<HTMLDivElement>(null);
+
+  const handleExportImage = async (options: GraphExportOptions) => {
+    const flow = graphContainerRef.current?.querySelector<HTMLElement>('.react-flow');
+    const viewport = flow?.querySelector<HTMLElement>('.react-flow__viewport');
+    if (!reactFlowInstance || !flow || !viewport || nodes.length === 0) return;
+    try {
+      const bounds = reactFlowInstance.getNodesBounds(nodes);
+      await exportGraph(viewport, bounds, getComputedStyle(flow).backgroundColor, options);
+    } catch (error) {
+      console.error('Failed to export graph', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'The graph could not be exported.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const currentExportGraph = () => buildExportGraph(
+    nodes,
+    edges,
+    node => reactFlowInstance?.getInternalNode(node.id)?.internals.positionAbsolute || node.position
+  );
+
+  const handleExportText = (format: GraphTextFormat) => {
+    const graph = currentExportGraph();
+    const { extension, mimeType } = GRAPH_TEXT_FORMATS.find(option => option.format === format)!;
+    downloadFile(`lineage-graph.${extension}`, serializeGraph(graph, format), `${mimeType};charset=utf-8`);
+  };
+
+  const handleExportHtml = () => {
+    const html = buildLineageHtml({
+      title: `Data lineage: ${sourceName}`,
+      exportedAt: new Date(),
+      graph: currentExportGraph(),
+      hiddenNodes: Array.from(hiddenNodes).sort(),
+      hideRules: hideRules.map(describeHideRule),
+      filters: Object.fromEntries(Object.entries(filters).filter(([, values]) => values.length > 0)),
+    });
+    downloadFile('lineage-graph.html', html, 'text/html;charset=utf-8');
+  };
 
   return (
-    <Card className="w-full h-[600px] overflow-hidden">
-      <div className="h-full">
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={handleNodesChange}
-          onEdgesChange={onEdgesChange}
-          onNodeContextMenu={handleNodeContextMenu}
-          nodeTypes={nodeTypes}
-          edgeTypes={edgeTypes}
-          fitView={Object.keys(state.nodePositions).length === 0} // Only fit view if no saved positions
-          className="bg-background"
-        >
-          <Controls />
-          <Background />
-        </ReactFlow>
+    <div className="space-y-4">
+      <div className="flex gap-4">
+        <Card className="w-full min-w-0 h-[600px] overflow-hidden">
+          <LineageContextMenu
+            target={menuTarget}
+            canPin={!grouping}
+            onHide={tableName => hideTables([tableName])}
+            onHideUpstream={tableName => handleHideLineage(tableName, 'upstream')}
+            onHideDownstream={tableName => handleHideLineage(tableName, 'downstream')}
+            onFocus={tableName => handleFocusChange(tableName, activeFocus?.radius || 2)}
+            onShowImpact={handleShowImpact}
+            onCopyName={handleCopyName}
+            onTogglePin={handleTogglePin}
+            onOpenDetails={setDetailsTable}
+            onHideRelationship={onHideRelationship}
+            onFilterToRelationship={onFilterToRelationship}
+          >
+            <div ref={graphContainerRef} className="h-full relative">
+              {isLayingOut && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60 text-sm text-muted-foreground">
+                  Laying out {layoutNodes.length.toLocaleString()} tables...
+                </div>
+              )}
+              <ReactFlow
+                nodes={nodes}
+                edges={edges}
+                onNodesChange={handleNodesChange}
+                onEdgesChange={onEdgesChange}
+                onNodeContextMenu={handleNodeContextMenu}
+                onEdgeContextMenu={handleEdgeContextMenu}
+                onPaneContextMenu={event => event.preventDefault()}
+                onPaneClick={() => setSelectedColumn(null)}
+                nodeTypes={nodeTypes}
+                edgeTypes={edgeTypes}
+                fitView={Object.keys(state.nodePositions).length === 0} // Only fit view if no saved positions
+                onInit={setReactFlowInstance}
+                className="bg-background"
+              >
+                <Panel position="top-left" className="flex flex-wrap items-center gap-2 rounded-md border bg-card p-2 shadow-sm">
+                  <TableSearchSelect
+                    tableNames={focusTableNames}
+                    value={activeFocus?.tableName || ''}
+                    onChange={tableName => handleFocusChange(tableName, activeFocus?.radius || 2)}
+                    placeholder="Focus on table"
+                  />
+                  <Select
+                    value={String(activeFocus?.radius || 2)}
+                    onValueChange={value => activeFocus && handleFocusChange(activeFocus.tableName, Number(value))}
+                    disabled={!activeFocus}
+                  >
+                    <SelectTrigger className="w-[110px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FOCUS_RADII.map(radius => (
+                        <SelectItem key={radius} value={String(radius)}>
+                          {radius} hop{radius === 1 ? '' : 's'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {activeFocus && (
+                    <Button variant="outline" size="sm" onClick={handleExitFocus} className="flex items-center gap-2">
+                      <Maximize2 className="h-4 w-4" />
+                      Show All
+                    </Button>
+                  )}
+                  <Select value={groupingModeValue(grouping)} onValueChange={handleGroupingChange}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No grouping</SelectItem>
+                      <SelectItem value="database">Group by database</SelectItem>
+                      <SelectItem value="schema">Group by schema</SelectItem>
+                      <SelectItem value="type">Group by table type</SelectItem>
+                      {groupingOptions.map(({ column, label }) => (
+                        <SelectItem key={column} value={groupingModeValue({ kind: 'column', column })}>
+                          Group by {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {tableGroups.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={handleToggleAllGroups} className="flex items-center gap-2">
+                      {allGroupsCollapsed ? <FolderOpen className="h-4 w-4" /> : <FolderClosed className="h-4 w-4" />}
+                      {allGroupsCollapsed ? 'Expand Groups' : 'Collapse Groups'}
+                    </Button>
+                  )}
+                </Panel>
+                <Panel position="top-right">
+                  <GraphExportMenu
+                    onExportImage={handleExportImage}
+                    onExportText={handleExportText}
+                    onExportHtml={handleExportHtml}
+                  />
+                </Panel>
+                <Controls />
+                <Background />
+              </ReactFlow>
+            </div>
+          </LineageContextMenu>
+        </Card>
+        {activeImpact && (
+          <ImpactPanel
+            tableName={activeImpact.tableName}
+            direction={activeImpact.direction}
+            maxDepth={activeImpact.maxDepth}
+            impacted={impacted}
+            hiddenNodes={allHiddenNodes}
+            onDirectionChange={direction => setImpactSelection({ ...activeImpact, direction })}
+            onMaxDepthChange={maxDepth => setImpactSelection({ ...activeImpact, maxDepth })}
+            onSelectTable={handleSelectImpactedTable}
+            onClose={() => setImpactSelection(null)}
+          />
+        )}
+        {pathQuery && tracedPaths && (
+          <TracePathPanel
+            query={pathQuery}
+            tracedPaths={tracedPaths}
+            relationships={relationshipsByPair}
+            hiddenNodes={allHiddenNodes}
+            onSelectPath={handleFitTables}
+            onClose={() => onPathQueryChange(null)}
+          />
+        )}
       </div>
-    </Card>
+      {cycles.length > 0 && <CyclesPanel cycles={cycles} onSelectCycle={handleFitTables} />}
+      <TableDetailsDialog details={tableDetails} onOpenChange={open => !open && setDetailsTable(null)} />
+    </div>
   );
 };
 
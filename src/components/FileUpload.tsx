@@ -2,16 +2,49 @@ import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Upload, FileText, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { EXPLICIT_ONLY_EXTENSIONS, SUPPORTED_EXTENSIONS, isSupportedFile, setDroppedFilePath } from '@/lib/importers';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
-  selectedFile: File | null;
+  onFilesSelect: (files: File[]) => void;
+  selectedFiles: File[];
   onClearFile: () => void;
 }
 
-const FileUpload = ({ onFileSelect, selectedFile, onClearFile }: FileUploadProps) => {
+// Several files are merged into one lineage; anything unsupported is skipped
+const pickLineageFiles = (files: File[], pickedDirectly = true): File[] =>
+  files.filter(file => isSupportedFile(file, pickedDirectly));
+
+// Dropped folders arrive as directory entries; walk them for their files
+const readEntryFiles = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => {
+      setDroppedFilePath(file, entry.fullPath.replace(/^\//, ''));
+      resolve([file]);
+    }, reject));
+  }
+  if (!entry.isDirectory) return Promise.resolve([]);
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty one
+    const readBatch = () => reader.readEntries(batch => {
+      if (batch.length > 0) {
+        entries.push(...batch);
+        readBatch();
+        return;
+      }
+      Promise.all(entries.map(readEntryFiles)).then(nested => resolve(nested.flat()), reject);
+    }, reject);
+    readBatch();
+  });
+};
+
+const FileUpload = ({ onFilesSelect, selectedFiles, onClearFile }: FileUploadProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -23,23 +56,43 @@ const FileUpload = ({ onFileSelect, selectedFile, onClearFile }: FileUploadProps
     setIsDragOver(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
     
-    const files = Array.from(e.dataTransfer.files);
-    const csvFile = files.find(file => file.type === 'text/csv' || file.name.endsWith('.csv'));
+    // Entries must be taken synchronously, before the drop event ends
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    const droppedFiles = Array.from(e.dataTransfer.files);
+    let lineageFiles: File[];
+    try {
+      // Files found inside dropped folders were not picked one by one
+      lineageFiles = entries.length > 0
+        ? (await Promise.all(entries.map(async entry => pickLineageFiles(await readEntryFiles(entry), entry.isFile)))).flat()
+        : pickLineageFiles(droppedFiles);
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      toast({
+        title: "Error reading files",
+        description: error instanceof Error ? error.message : "The dropped files could not be read.",
+        variant: "destructive",
+      });
+      return;
+    }
     
-    if (csvFile) {
-      onFileSelect(csvFile);
+    if (lineageFiles.length > 0) {
+      onFilesSelect(lineageFiles);
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file && (file.type === 'text/csv' || file.name.endsWith('.csv'))) {
-      onFileSelect(file);
+    const lineageFiles = pickLineageFiles(Array.from(e.target.files || []));
+    if (lineageFiles.length > 0) {
+      onFilesSelect(lineageFiles);
     }
+    // Allow choosing the same files again after clearing
+    e.target.value = '';
   };
 
   const handleClick = () => {
@@ -48,7 +101,7 @@ const FileUpload = ({ onFileSelect, selectedFile, onClearFile }: FileUploadProps
 
   return (
     <div className="w-full max-w-2xl mx-auto">
-      {!selectedFile ? (
+      {selectedFiles.length === 0 ? (
         <Card
           className={`border-2 border-dashed transition-all duration-200 cursor-pointer hover:shadow-md ${
             isDragOver
@@ -64,12 +117,13 @@ const FileUpload = ({ onFileSelect, selectedFile, onClearFile }: FileUploadProps
             <Upload className={`mx-auto h-12 w-12 mb-4 transition-colors ${
               isDragOver ? 'text-primary' : 'text-muted-foreground'
             }`} />
-            <h3 className="text-lg font-semibold mb-2">Upload CSV File</h3>
+            <h3 className="text-lg font-semibold mb-2">Upload Lineage Files</h3>
             <p className="text-muted-foreground mb-4">
-              Drag and drop your CSV file here, or click to browse
+              Drag and drop CSV or Excel files, a dbt manifest.json, OpenLineage events, a folder of SQL scripts or DDL
+              dumps, or Graphviz DOT and Mermaid diagrams here, or click to browse. Several files are merged into one graph.
             </p>
             <Button variant="outline" className="pointer-events-none">
-              Choose File
+              Choose Files
             </Button>
           </div>
         </Card>
@@ -80,10 +134,17 @@ const FileUpload = ({ onFileSelect, selectedFile, onClearFile }: FileUploadProps
               <div className="flex items-center gap-3">
                 <FileText className="h-8 w-8 text-primary" />
                 <div>
-                  <h3 className="font-semibold text-foreground">{selectedFile.name}</h3>
+                  <h3 className="font-semibold text-foreground">
+                    {selectedFiles.length === 1 ? selectedFiles[0].name : `${selectedFiles.length} files`}
+                  </h3>
                   <p className="text-sm text-muted-foreground">
-                    {(selectedFile.size / 1024).toFixed(1)} KB
+                    {(selectedFiles.reduce((total, file) => total + file.size, 0) / 1024).toFixed(1)} KB
                   </p>
+                  {selectedFiles.length > 1 && (
+                    <p className="text-xs text-muted-foreground truncate max-w-md">
+                      {selectedFiles.map(file => file.name).join(', ')}
+                    </p>
+                  )}
                 </div>
               </div>
               <Button
@@ -102,7 +163,8 @@ const FileUpload = ({ onFileSelect, selectedFile, onClearFile }: FileUploadProps
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv"
+        accept={[...SUPPORTED_EXTENSIONS, ...EXPLICIT_ONLY_EXTENSIONS].join(',')}
+        multiple
         onChange={handleFileInput}
         className="hidden"
       />
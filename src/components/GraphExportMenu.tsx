@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ImageDown } from 'lucide-react';
+import { GraphExportBackground, GraphExportFormat, GraphExportOptions } from '@/lib/graphExport';
+import { GRAPH_TEXT_FORMATS, GraphTextFormat } from '@/lib/exporters';
+
+interface GraphExportMenuProps {
+  onExportImage: (options: GraphExportOptions) => Promise<void>;
+  onExportText: (format: GraphTextFormat) => void;
+  onExportHtml: () => void;
+}
+
+const IMAGE_FORMATS: { format: GraphExportFormat; label: string }[] = [
+  { format: 'svg', label: 'SVG' },
+  { format: 'png', label: 'PNG (high resolution)' },
+  { format: 'pdf', label: 'PDF (A4 pages)' },
+];
+
+const isImageFormat = (format: string): format is GraphExportFormat =>
+  IMAGE_FORMATS.some(option => option.format === format);
+
+const GraphExportMenu = ({ onExportImage, onExportText, onExportHtml }: GraphExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<GraphExportFormat | GraphTextFormat | 'html'>('svg');
+  const [background, setBackground] = useState<GraphExportBackground>('themed');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      if (isImageFormat(format)) await onExportImage({ format, background });
+      else if (format === 'html') onExportHtml();
+      else onExportText(format);
+      setOpen(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <ImageDown className="h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-foreground">Format</label>
+          <Select value={format} onValueChange={value => setFormat(value as GraphExportFormat | GraphTextFormat | 'html')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Image</SelectLabel>
+                {IMAGE_FORMATS.map(({ format, label }) => (
+                  <SelectItem key={format} value={format}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectGroup>
+                <SelectLabel>Graph data</SelectLabel>
+                {GRAPH_TEXT_FORMATS.map(({ format, label }) => (
+                  <SelectItem key={format} value={format}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectGroup>
+                <SelectLabel>Viewer</SelectLabel>
+                <SelectItem value="html">Interactive HTML</SelectItem>
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-foreground">Background</label>
+          <Select
+            value={background}
+            onValueChange={value => setBackground(value as GraphExportBackground)}
+            disabled={!isImageFormat(format)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="themed">Theme background</SelectItem>
+              <SelectItem value="transparent">Transparent</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleExport} disabled={isExporting} size="sm" className="w-full">
+          {isExporting ? 'Exporting...' : 'Export Graph'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default GraphExportMenu;
@@ -0,0 +1,77 @@
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight, Folder } from 'lucide-react';
+
+interface GroupNodeData {
+  groupId: string;
+  label: string;
+  tableCount: number;
+  collapsed: boolean;
+  onToggleCollapse?: (groupId: string) => void;
+}
+
+interface GroupNodeProps {
+  data: GroupNodeData;
+}
+
+const GroupNode = memo(({ data }: GroupNodeProps) => {
+  const { groupId, label, tableCount, collapsed, onToggleCollapse } = data;
+  const tableCountLabel = `${tableCount} table${tableCount === 1 ? '' : 's'}`;
+
+  const toggleButton = (
+    <button
+      type="button"
+      title={collapsed ? 'Expand group' : 'Collapse group'}
+      className="nodrag flex h-6 w-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground"
+      onClick={(event) => {
+        event.stopPropagation();
+        onToggleCollapse?.(groupId);
+      }}
+    >
+      {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+    </button>
+  );
+
+  // A collapsed group stands in for its tables, so it looks like one
+  if (collapsed) {
+    return (
+      <Card className="p-4 min-w-[200px] border-2 border-dashed border-primary/40 bg-card hover:border-primary/60 transition-colors">
+        <Handle
+          type="target"
+          position={Position.Left}
+          className="w-3 h-3 !bg-primary border-2 border-background"
+        />
+        <Handle
+          type="source"
+          position={Position.Right}
+          className="w-3 h-3 !bg-primary border-2 border-background"
+        />
+        <div className="flex items-center gap-2">
+          <Folder className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="font-semibold text-sm text-foreground">{label}</h3>
+            <p className="text-xs text-muted-foreground">{tableCountLabel}</p>
+          </div>
+          <div className="ml-auto">{toggleButton}</div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="h-full w-full rounded-lg border-2 border-dashed border-primary/30 bg-primary/5">
+      <div className="flex items-center gap-1 px-1 py-0.5">
+        {toggleButton}
+        <Folder className="h-3.5 w-3.5 text-primary" />
+        <span className="text-xs font-semibold text-foreground truncate">{label}</span>
+        <Badge variant="secondary" className="ml-1 px-1.5 py-0 text-[10px]">{tableCountLabel}</Badge>
+      </div>
+    </div>
+  );
+});
+
+GroupNode.displayName = 'GroupNode';
+
+export default GroupNode;
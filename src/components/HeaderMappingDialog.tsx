@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  HeaderMapping,
+  LINEAGE_ROLES,
+  OPTIONAL_ROLES,
+  ROLE_LABELS,
+  isCompleteMapping,
+} from '@/lib/headerMapping';
+
+interface HeaderMappingDialogProps {
+  open: boolean;
+  fileName: string;
+  headers: string[];
+  previewRows: string[][];
+  initialMapping: HeaderMapping;
+  onConfirm: (mapping: HeaderMapping) => void;
+  onCancel: () => void;
+}
+
+const UNASSIGNED = 'unassigned';
+
+const HeaderMappingDialog = ({
+  open,
+  fileName,
+  headers,
+  previewRows,
+  initialMapping,
+  onConfirm,
+  onCancel,
+}: HeaderMappingDialogProps) => {
+  const [mapping, setMapping] = useState<HeaderMapping>(initialMapping);
+
+  const assignedColumns = new Set(Object.values(mapping).filter(index => index !== -1));
+  const isComplete = isCompleteMapping(mapping, headers);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Map columns</DialogTitle>
+          <DialogDescription>
+            {fileName} does not use the standard lineage headers. Choose which column holds each value; tables
+            are left untyped when there is no type column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {LINEAGE_ROLES.map(role => (
+            <div key={role} className="space-y-1">
+              <label className="text-sm font-medium text-foreground">
+                {ROLE_LABELS[role]}
+                {OPTIONAL_ROLES.has(role) && <span className="font-normal text-muted-foreground"> (optional)</span>}
+              </label>
+              <Select
+                value={mapping[role] === -1 ? UNASSIGNED : String(mapping[role])}
+                onValueChange={(value) => setMapping(prev => ({
+                  ...prev,
+                  [role]: value === UNASSIGNED ? -1 : Number(value),
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Not assigned</SelectItem>
+                  {headers.map((header, index) => (
+                    <SelectItem
+                      key={index}
+                      value={String(index)}
+                      disabled={assignedColumns.has(index) && mapping[role] !== index}
+                    >
+                      {header || `Column ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto border rounded-md max-h-64">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                {headers.map((header, index) => {
+                  const role = LINEAGE_ROLES.find(r => mapping[r] === index);
+                  return (
+                    <th
+                      key={index}
+                      className="px-3 py-2 text-left text-xs font-semibold text-foreground border-r border-border/50 last:border-r-0 whitespace-nowrap"
+                    >
+                      <div>{header || `Column ${index + 1}`}</div>
+                      {role && <div className="font-normal text-primary">{ROLE_LABELS[role]}</div>}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {previewRows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {headers.map((_, cellIndex) => (
+                    <td
+                      key={cellIndex}
+                      className="px-3 py-2 text-xs text-foreground border-r border-border/30 last:border-r-0 whitespace-nowrap"
+                    >
+                      {row[cellIndex]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(mapping)} disabled={!isComplete}>
+            Apply Mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HeaderMappingDialog;
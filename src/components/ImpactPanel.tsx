@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDownRight, ArrowUpLeft, Crosshair, Download, X } from 'lucide-react';
+import { serializeCsv } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+import { ImpactDirection, ImpactedTable, impactToCsvRecords } from '@/lib/impactAnalysis';
+
+interface ImpactPanelProps {
+  tableName: string;
+  direction: ImpactDirection;
+  maxDepth: number | null;
+  impacted: ImpactedTable[];
+  hiddenNodes: Set<string>;
+  onDirectionChange: (direction: ImpactDirection) => void;
+  onMaxDepthChange: (maxDepth: number | null) => void;
+  onSelectTable: (tableName: string) => void;
+  onClose: () => void;
+}
+
+type GroupBy = 'type' | 'distance';
+
+const DEPTH_OPTIONS = [1, 2, 3, 5, 10];
+
+const ImpactPanel = ({
+  tableName,
+  direction,
+  maxDepth,
+  impacted,
+  hiddenNodes,
+  onDirectionChange,
+  onMaxDepthChange,
+  onSelectTable,
+  onClose,
+}: ImpactPanelProps) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('distance');
+
+  const groups = useMemo(() => {
+    const groups = new Map<string, ImpactedTable[]>();
+    impacted.forEach(table => {
+      const label = groupBy === 'type'
+        ? table.tableType || 'Unknown type'
+        : `${table.distance} hop${table.distance === 1 ? '' : 's'} ${table.direction}`;
+      if (!groups.has(label)) groups.set(label, []);
+      groups.get(label)!.push(table);
+    });
+    const entries = Array.from(groups.entries());
+    // Distance groups are already in order; type groups read best alphabetically
+    return groupBy === 'type' ? entries.sort(([a], [b]) => a.localeCompare(b)) : entries;
+  }, [impacted, groupBy]);
+
+  const handleExport = () => {
+    downloadFile(`impact-${tableName}.csv`, serializeCsv(impactToCsvRecords(tableName, impacted)), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Card className="w-80 shrink-0 h-[600px] flex flex-col">
+      <div className="p-4 border-b space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <Crosshair className="h-4 w-4 text-primary" />
+              Impact Analysis
+            </h3>
+            <p className="text-xs text-muted-foreground truncate" title={tableName}>{tableName}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={direction} onValueChange={value => onDirectionChange(value as ImpactDirection)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="upstream">Upstream</SelectItem>
+              <SelectItem value="downstream">Downstream</SelectItem>
+              <SelectItem value="both">Both</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={maxDepth === null ? 'all' : String(maxDepth)}
+            onValueChange={value => onMaxDepthChange(value === 'all' ? null : Number(value))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEPTH_OPTIONS.map(depth => (
+                <SelectItem key={depth} value={String(depth)}>
+                  {depth} hop{depth === 1 ? '' : 's'}
+                </SelectItem>
+              ))}
+              <SelectItem value="all">All depths</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Select value={groupBy} onValueChange={value => setGroupBy(value as GroupBy)}>
+            <SelectTrigger className="h-8 text-xs w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="distance">Group by distance</SelectItem>
+              <SelectItem value="type">Group by type</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={impacted.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {impacted.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No {direction === 'both' ? 'related' : direction} tables.</p>
+        ) : (
+          groups.map(([label, tables]) => (
+            <div key={label}>
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-xs font-semibold text-foreground">{label}</h4>
+                <Badge variant="secondary">{tables.length}</Badge>
+              </div>
+              <ul className="space-y-0.5">
+                {tables.map(table => (
+                  <li key={`${table.direction}:${table.tableName}`}>
+                    <button
+                      type="button"
+                      className="w-full flex items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted/50 transition-colors"
+                      onClick={() => onSelectTable(table.tableName)}
+                    >
+                      {table.direction === 'upstream'
+                        ? <ArrowUpLeft className="h-3 w-3 shrink-0 text-muted-foreground" />
+                        : <ArrowDownRight className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                      <span className="truncate text-foreground">{table.tableName}</span>
+                      {hiddenNodes.has(table.tableName) && (
+                        <span className="ml-auto text-muted-foreground">hidden</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default ImpactPanel;
@@ -0,0 +1,127 @@
+import { ReactNode } from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  Copy,
+  Crosshair,
+  EyeOff,
+  Filter,
+  Info,
+  Pin,
+  PinOff,
+  ScanSearch,
+} from 'lucide-react';
+
+export type ContextMenuTarget =
+  | { kind: 'table'; tableName: string; pinned: boolean }
+  /** `relationship` is null for bypass and rolled-up edges, which stand for several. */
+  | { kind: 'edge'; relationship: string | null };
+
+interface LineageContextMenuProps {
+  target: ContextMenuTarget | null;
+  /** Pinning is unavailable while tables are grouped. */
+  canPin: boolean;
+  onHide: (tableName: string) => void;
+  onHideUpstream: (tableName: string) => void;
+  onHideDownstream: (tableName: string) => void;
+  onFocus: (tableName: string) => void;
+  onShowImpact: (tableName: string) => void;
+  onCopyName: (tableName: string) => void;
+  onTogglePin: (tableName: string) => void;
+  onOpenDetails: (tableName: string) => void;
+  onHideRelationship: (relationship: string) => void;
+  onFilterToRelationship: (relationship: string) => void;
+  children: ReactNode;
+}
+
+const LineageContextMenu = ({
+  target,
+  canPin,
+  onHide,
+  onHideUpstream,
+  onHideDownstream,
+  onFocus,
+  onShowImpact,
+  onCopyName,
+  onTogglePin,
+  onOpenDetails,
+  onHideRelationship,
+  onFilterToRelationship,
+  children,
+}: LineageContextMenuProps) => (
+  <ContextMenu>
+    <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+    <ContextMenuContent className="w-56">
+      {target?.kind === 'table' && (
+        <>
+          <ContextMenuLabel className="truncate">{target.tableName}</ContextMenuLabel>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => onHide(target.tableName)}>
+            <EyeOff className="mr-2 h-4 w-4" />
+            Hide
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onHideUpstream(target.tableName)}>
+            <ArrowLeftToLine className="mr-2 h-4 w-4" />
+            Hide Upstream
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onHideDownstream(target.tableName)}>
+            <ArrowRightToLine className="mr-2 h-4 w-4" />
+            Hide Downstream
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => onFocus(target.tableName)}>
+            <ScanSearch className="mr-2 h-4 w-4" />
+            Focus
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onShowImpact(target.tableName)}>
+            <Crosshair className="mr-2 h-4 w-4" />
+            Show Impact
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => onCopyName(target.tableName)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy Name
+          </ContextMenuItem>
+          <ContextMenuItem disabled={!canPin} onSelect={() => onTogglePin(target.tableName)}>
+            {target.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+            {target.pinned ? 'Unpin Position' : 'Pin Position'}
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => onOpenDetails(target.tableName)}>
+            <Info className="mr-2 h-4 w-4" />
+            Details
+          </ContextMenuItem>
+        </>
+      )}
+      {target?.kind === 'edge' && (
+        <>
+          <ContextMenuLabel className="truncate">{target.relationship ?? 'Combined edge'}</ContextMenuLabel>
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            disabled={target.relationship === null}
+            onSelect={() => target.relationship !== null && onHideRelationship(target.relationship)}
+          >
+            <EyeOff className="mr-2 h-4 w-4" />
+            Hide This Relationship Type
+          </ContextMenuItem>
+          <ContextMenuItem
+            disabled={target.relationship === null}
+            onSelect={() => target.relationship !== null && onFilterToRelationship(target.relationship)}
+          >
+            <Filter className="mr-2 h-4 w-4" />
+            Filter to This Relationship
+          </ContextMenuItem>
+        </>
+      )}
+    </ContextMenuContent>
+  </ContextMenu>
+);
+
+export default LineageContextMenu;
@@ -5,6 +5,7 @@ import {
   getBezierPath,
   EdgeProps,
 } from '@xyflow/react';
+import { cn } from '@/lib/utils';
 import {
   Tooltip,
   TooltipContent,
@@ -16,6 +17,12 @@ interface RelationshipEdgeData {
   relationship: string;
   parentTableName: string;
   childTableName: string;
+  parentColumnName?: string;
+  childColumnName?: string;
+  sourceFiles?: string[];
+  inCycle?: boolean;
+  /** Number of edges a collapsed group's edge stands for. */
+  rolledUpCount?: number;
 }
 
 const RelationshipEdge = memo(({
@@ -41,7 +48,7 @@ const RelationshipEdge = memo(({
 
   if (!data) return null;
 
-  const { relationship, parentTableName, childTableName } = data;
+  const { relationship, parentTableName, childTableName, parentColumnName, childColumnName, sourceFiles = [], inCycle, rolledUpCount } = data;
 
   return (
     <>
@@ -59,15 +66,38 @@ const RelationshipEdge = memo(({
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
-                <div className="bg-primary/10 border border-primary/20 rounded px-2 py-1 text-xs font-medium text-primary cursor-pointer hover:bg-primary/20 transition-colors">
+                <div
+                  className={cn(
+                    'border rounded px-2 py-1 text-xs font-medium cursor-pointer transition-colors',
+                    inCycle
+                      ? 'bg-destructive/10 border-destructive/30 text-destructive hover:bg-destructive/20'
+                      : 'bg-primary/10 border-primary/20 text-primary hover:bg-primary/20'
+                  )}
+                >
                   {relationship}
+                  {rolledUpCount !== undefined && rolledUpCount > 1 && (
+                    <span className="ml-1 opacity-70">×{rolledUpCount}</span>
+                  )}
                 </div>
               </TooltipTrigger>
               <TooltipContent side="top">
                 <div className="space-y-1">
-                  <div><span className="font-semibold">From:</span> {parentTableName}</div>
-                  <div><span className="font-semibold">To:</span> {childTableName}</div>
+                  <div>
+                    <span className="font-semibold">From:</span> {parentTableName}
+                    {parentColumnName && `.${parentColumnName}`}
+                  </div>
+                  <div>
+                    <span className="font-semibold">To:</span> {childTableName}
+                    {childColumnName && `.${childColumnName}`}
+                  </div>
                   <div><span className="font-semibold">Relationship:</span> {relationship}</div>
+                  {sourceFiles.length > 0 && (
+                    <div><span className="font-semibold">Source Files:</span> {sourceFiles.join(', ')}</div>
+                  )}
+                  {inCycle && <div className="text-destructive">Part of a circular dependency</div>}
+                  {rolledUpCount !== undefined && (
+                    <div><span className="font-semibold">Edges:</span> {rolledUpCount}</div>
+                  )}
                 </div>
               </TooltipContent>
             </Tooltip>
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface SheetPickerDialogProps {
+  open: boolean;
+  fileName: string;
+  sheetNames: string[];
+  onConfirm: (sheetNames: string[]) => void;
+  onCancel: () => void;
+}
+
+const SheetPickerDialog = ({ open, fileName, sheetNames, onConfirm, onCancel }: SheetPickerDialogProps) => {
+  const [selected, setSelected] = useState<string[]>(sheetNames.slice(0, 1));
+
+  const toggleSheet = (sheetName: string, checked: boolean) => {
+    // Keep workbook order so the first selected sheet defines the columns
+    setSelected(prev => sheetNames.filter(name => (name === sheetName ? checked : prev.includes(name))));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Choose sheets</DialogTitle>
+          <DialogDescription>
+            {fileName} has {sheetNames.length} sheets. Select the sheet with the lineage, or several sheets with
+            the same columns to combine them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 overflow-auto space-y-2">
+          {sheetNames.map(sheetName => (
+            <label key={sheetName} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+              <Checkbox
+                checked={selected.includes(sheetName)}
+                onCheckedChange={(checked) => toggleSheet(sheetName, checked === true)}
+              />
+              {sheetName}
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(selected)} disabled={selected.length === 0}>
+            {selected.length > 1 ? `Combine ${selected.length} Sheets` : 'Load Sheet'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SheetPickerDialog;
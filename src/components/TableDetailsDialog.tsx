@@ -0,0 +1,80 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export interface TableDetails {
+  tableName: string;
+  tableType: string;
+  namespace: string;
+  /** Every type the table was given; more than one is a conflict. */
+  types: string[];
+  sourceFiles: string[];
+  parents: string[];
+  children: string[];
+  columns: string[];
+}
+
+interface TableDetailsDialogProps {
+  details: TableDetails | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NameList = ({ title, names }: { title: string; names: string[] }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-foreground mb-1">
+      {title} <span className="font-normal text-muted-foreground">({names.length})</span>
+    </h4>
+    {names.length === 0 ? (
+      <p className="text-xs text-muted-foreground">None</p>
+    ) : (
+      <ul className="max-h-40 overflow-auto rounded-md border divide-y divide-border/50">
+        {names.map(name => (
+          <li key={name} className="px-3 py-1 text-xs text-foreground truncate">{name}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const TableDetailsDialog = ({ details, onOpenChange }: TableDetailsDialogProps) => (
+  <Dialog open={details !== null} onOpenChange={onOpenChange}>
+    {details && (
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="break-all">{details.tableName}</DialogTitle>
+          <DialogDescription>
+            {details.tableType}
+            {details.namespace && ` in ${details.namespace}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {details.types.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-destructive">
+              Conflicting types:
+              {details.types.map(type => <Badge key={type} variant="destructive">{type}</Badge>)}
+            </div>
+          )}
+          {details.sourceFiles.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-foreground">
+              Source files:
+              {details.sourceFiles.map(fileName => <Badge key={fileName} variant="secondary">{fileName}</Badge>)}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <NameList title="Parent Tables" names={details.parents} />
+            <NameList title="Child Tables" names={details.children} />
+          </div>
+          {details.columns.length > 0 && <NameList title="Columns" names={details.columns} />}
+        </div>
+      </DialogContent>
+    )}
+  </Dialog>
+);
+
+export default TableDetailsDialog;
@@ -1,19 +1,40 @@
 import { memo } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { Card } from '@/components/ui/card';
-import { Database } from 'lucide-react';
+import { AlertTriangle, ChevronDown, ChevronRight, Crosshair, Database, Pin, Plus } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { columnHandleId } from '@/lib/columnLineage';
 
 interface TableNodeData {
   tableName: string;
   tableType: string;
+  namespace?: string;
+  sourceFiles?: string[];
+  /** All types the table was given, when the files disagree. */
+  conflictingTypes?: string[];
   parents: string[];
   children: string[];
+  /** Columns named by column-level lineage rows. */
+  columns?: string[];
+  expanded?: boolean;
+  /** Columns on the path of the selected column. */
+  highlightedColumns?: string[];
+  selectedColumn?: string;
+  onToggleExpand?: (tableName: string) => void;
+  onColumnClick?: (tableName: string, columnName: string) => void;
+  /** How the table stands out in an impact analysis or traced path. */
+  emphasis?: 'focus' | 'related' | 'dimmed';
+  onAnalyzeImpact?: (tableName: string) => void;
+  /** In focus mode, the table links to tables outside the neighbourhood. */
+  focusBoundary?: boolean;
+  onExpandFocus?: (tableName: string) => void;
+  pinned?: boolean;
 }
 
 interface TableNodeProps {
@@ -21,22 +42,40 @@ interface TableNodeProps {
 }
 
 const TableNode = memo(({ data }: TableNodeProps) => {
-  const { tableName, tableType, parents, children } = data;
+  const {
+    tableName,
+    tableType,
+    namespace,
+    sourceFiles = [],
+    conflictingTypes = [],
+    parents,
+    children,
+    columns = [],
+    expanded = false,
+    highlightedColumns = [],
+    selectedColumn,
+    onToggleExpand,
+    onColumnClick,
+    emphasis,
+    onAnalyzeImpact,
+    focusBoundary = false,
+    onExpandFocus,
+    pinned = false,
+  } = data;
 
   return (
     <TooltipProvider>
       <Tooltip>
         <TooltipTrigger asChild>
-          <Card className="p-4 min-w-[200px] border-2 border-primary/20 bg-card hover:border-primary/40 transition-colors">
-            <div className="flex items-center gap-2">
-              <Database className="h-5 w-5 text-primary" />
-              <div>
-                <h3 className="font-semibold text-sm text-foreground">{tableName}</h3>
-                <p className="text-xs text-muted-foreground">{tableType}</p>
-              </div>
-            </div>
-            
-            {/* Handles for connections */}
+          <Card
+            className={cn(
+              'p-4 min-w-[200px] border-2 border-primary/20 bg-card hover:border-primary/40 transition-all',
+              emphasis === 'focus' && 'border-primary ring-2 ring-primary ring-offset-2 ring-offset-background',
+              emphasis === 'related' && 'border-primary/60',
+              emphasis === 'dimmed' && 'opacity-30'
+            )}
+          >
+            {/* Handles for connections; table-level edges use the first handle of each side */}
             <Handle
               type="target"
               position={Position.Left}
@@ -47,6 +86,99 @@ const TableNode = memo(({ data }: TableNodeProps) => {
               position={Position.Right}
               className="w-3 h-3 !bg-primary border-2 border-background"
             />
+            <div className="flex items-center gap-2">
+              <Database className="h-5 w-5 text-primary" />
+              <div>
+                <h3 className="font-semibold text-sm text-foreground">{tableName}</h3>
+                <p className="text-xs text-muted-foreground">{tableType}</p>
+              </div>
+              {conflictingTypes.length > 0 && <AlertTriangle className="h-4 w-4 text-destructive" />}
+              {pinned && <Pin className="h-4 w-4 text-muted-foreground" />}
+              <button
+                type="button"
+                title="Analyze impact"
+                className={cn(
+                  'nodrag ml-auto flex h-6 w-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground',
+                  emphasis === 'focus' && 'text-primary'
+                )}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onAnalyzeImpact?.(tableName);
+                }}
+              >
+                <Crosshair className="h-4 w-4" />
+              </button>
+            </div>
+
+            {(columns.length > 0 || focusBoundary) && (
+              <div className="mt-2 flex items-center justify-between gap-2">
+                {columns.length > 0 && (
+                  <button
+                    type="button"
+                    className="nodrag flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onToggleExpand?.(tableName);
+                    }}
+                  >
+                    {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    {columns.length} column{columns.length === 1 ? '' : 's'}
+                  </button>
+                )}
+                {focusBoundary && (
+                  <button
+                    type="button"
+                    className="nodrag ml-auto flex items-center gap-1 text-xs text-primary hover:underline"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onExpandFocus?.(tableName);
+                    }}
+                  >
+                    <Plus className="h-3 w-3" />
+                    Show neighbours
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Column rows carry their own handles for column-level edges */}
+            {expanded && (
+              <div className="mt-2 border-t border-border pt-2 space-y-0.5">
+                {columns.map(column => (
+                  <div
+                    key={column}
+                    className={cn(
+                      'nodrag relative px-2 py-1 rounded text-xs cursor-pointer transition-colors',
+                      highlightedColumns.includes(column)
+                        ? 'bg-primary/15 text-primary font-medium'
+                        : 'text-foreground hover:bg-muted',
+                      selectedColumn === column && 'ring-1 ring-primary'
+                    )}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onColumnClick?.(tableName, column);
+                    }}
+                  >
+                    <Handle
+                      type="target"
+                      id={columnHandleId('in', column)}
+                      position={Position.Left}
+                      className="!w-2 !h-2 !bg-primary/70 border border-background"
+                      style={{ left: -18 }}
+                    />
+                    {column}
+                    <Handle
+                      type="source"
+                      id={columnHandleId('out', column)}
+                      position={Position.Right}
+                      className="!w-2 !h-2 !bg-primary/70 border border-background"
+                      style={{ right: -18 }}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
           </Card>
         </TooltipTrigger>
         <TooltipContent side="top" className="max-w-sm">
@@ -54,6 +186,21 @@ const TableNode = memo(({ data }: TableNodeProps) => {
             <div>
               <span className="font-semibold">Table Name:</span> {tableName}
             </div>
+            {namespace && (
+              <div>
+                <span className="font-semibold">Namespace:</span> {namespace}
+              </div>
+            )}
+            {conflictingTypes.length > 0 && (
+              <div className="text-destructive">
+                <span className="font-semibold">Conflicting Types:</span> {conflictingTypes.join(', ')}
+              </div>
+            )}
+            {sourceFiles.length > 0 && (
+              <div>
+                <span className="font-semibold">Source Files:</span> {sourceFiles.join(', ')}
+              </div>
+            )}
             {parents.length > 0 && (
               <div>
                 <span className="font-semibold">Parent Tables:</span> {parents.join(', ')}
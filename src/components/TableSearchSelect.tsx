@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronDown, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TableSearchSelectProps {
+  tableNames: string[];
+  value: string;
+  onChange: (tableName: string) => void;
+  placeholder: string;
+}
+
+// Long lists render slowly inside a popover; searching narrows them down
+const MAX_VISIBLE_OPTIONS = 200;
+
+const TableSearchSelect = ({ tableNames, value, onChange, placeholder }: TableSearchSelectProps) => {
+  const [open, setOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const matches = tableNames.filter(tableName => tableName.toLowerCase().includes(searchTerm.toLowerCase()));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn('w-[220px] justify-between text-left font-normal', !value && 'text-muted-foreground')}
+        >
+          <span className="truncate">{value || placeholder}</span>
+          <ChevronDown className="ml-2 h-4 w-4 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="p-3 border-b flex items-center space-x-2">
+          <Search className="h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search tables..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="max-h-60 overflow-y-auto p-1">
+          {matches.length === 0 ? (
+            <div className="text-sm text-muted-foreground text-center py-4">
+              No tables found
+            </div>
+          ) : (
+            <>
+              {matches.slice(0, MAX_VISIBLE_OPTIONS).map(tableName => (
+                <button
+                  key={tableName}
+                  type="button"
+                  className="w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                  onClick={() => {
+                    onChange(tableName);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn('h-4 w-4 shrink-0', tableName === value ? 'opacity-100' : 'opacity-0')} />
+                  <span className="truncate">{tableName}</span>
+                </button>
+              ))}
+              {matches.length > MAX_VISIBLE_OPTIONS && (
+                <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                  {(matches.length - MAX_VISIBLE_OPTIONS).toLocaleString()} more, refine the search
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TableSearchSelect;
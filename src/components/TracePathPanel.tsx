@@ -0,0 +1,92 @@
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, Route, X } from 'lucide-react';
+import { PathQuery, TracedPaths } from '@/lib/pathFinding';
+
+interface TracePathPanelProps {
+  query: PathQuery;
+  tracedPaths: TracedPaths;
+  /** Relationships of each parent → child pair, keyed by JSON [parent, child]. */
+  relationships: Map<string, string[]>;
+  hiddenNodes: Set<string>;
+  onSelectPath: (tables: string[]) => void;
+  onClose: () => void;
+}
+
+const TracePathPanel = ({ query, tracedPaths, relationships, hiddenNodes, onSelectPath, onClose }: TracePathPanelProps) => {
+  const { paths, truncated } = tracedPaths;
+
+  return (
+    <Card className="w-80 shrink-0 h-[600px] flex flex-col">
+      <div className="p-4 border-b">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <Route className="h-4 w-4 text-primary" />
+              Trace Path
+            </h3>
+            <p className="text-xs text-muted-foreground truncate" title={`${query.source} → ${query.target}`}>
+              {query.source} → {query.target}
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {paths.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            {paths.length} path{paths.length === 1 ? '' : 's'}
+            {truncated && ` shown, limit of ${query.limit} reached`}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {paths.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            {query.target} is not derived from {query.source} in the filtered lineage.
+          </p>
+        ) : (
+          paths.map((path, pathIndex) => (
+            <div key={path.join('\n')} className="rounded-md border p-3">
+              <button
+                type="button"
+                className="w-full flex items-center justify-between mb-2 text-left"
+                onClick={() => onSelectPath(path)}
+              >
+                <span className="text-xs font-semibold text-foreground">Path {pathIndex + 1}</span>
+                <span className="flex items-center gap-1">
+                  {pathIndex === 0 && <Badge>Shortest</Badge>}
+                  <Badge variant="secondary">{path.length - 1} hop{path.length === 2 ? '' : 's'}</Badge>
+                </span>
+              </button>
+              <ol className="text-xs">
+                {path.map((tableName, hopIndex) => (
+                  <li key={tableName}>
+                    {hopIndex > 0 && (
+                      <div className="flex items-center gap-1 py-0.5 pl-1 text-muted-foreground">
+                        <ArrowDown className="h-3 w-3 shrink-0" />
+                        <span className="truncate">
+                          {(relationships.get(JSON.stringify([path[hopIndex - 1], tableName])) || []).join(', ')}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2 font-medium text-foreground">
+                      <span className="truncate">{tableName}</span>
+                      {hiddenNodes.has(tableName) && (
+                        <span className="ml-auto font-normal text-muted-foreground">hidden</span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default TracePathPanel;
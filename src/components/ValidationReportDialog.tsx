@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download } from 'lucide-react';
+import { serializeCsv } from '@/lib/csv';
+import { baseFileName, downloadFile } from '@/lib/download';
+import {
+  ISSUE_LABELS,
+  ValidationIssue,
+  ValidationIssueKind,
+  issuesToCsvRecords,
+} from '@/lib/lineageValidation';
+
+interface ValidationReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  issues: ValidationIssue[];
+}
+
+// Rendering tens of thousands of rows in a dialog is not useful; the export has them all
+const MAX_VISIBLE_ISSUES = 500;
+
+const ValidationReportDialog = ({ open, onOpenChange, fileName, issues }: ValidationReportDialogProps) => {
+  const countsByKind = useMemo(() => {
+    const counts = new Map<ValidationIssueKind, number>();
+    issues.forEach(({ kind }) => counts.set(kind, (counts.get(kind) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [issues]);
+
+  const showFileColumn = issues.some(issue => issue.fileName);
+  const showSheetColumn = issues.some(issue => issue.sheetName);
+
+  const handleExport = () => {
+    downloadFile(
+      `${baseFileName(fileName)}-validation.csv`,
+      serializeCsv(issuesToCsvRecords(issues)),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Validation Report</DialogTitle>
+          <DialogDescription>
+            {issues.length} problem{issues.length === 1 ? '' : 's'} found in {fileName}. Rows with an empty
+            table name are left out of the graph.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {countsByKind.map(([kind, count]) => (
+            <Badge key={kind} variant={kind === 'parse-error' ? 'destructive' : 'secondary'}>
+              {ISSUE_LABELS[kind]}: {count}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="overflow-auto border rounded-md max-h-96">
+          <table className="w-full">
+            <thead className="bg-muted/50 sticky top-0">
+              <tr>
+                {showFileColumn && (
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">File</th>
+                )}
+                {showSheetColumn && (
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Sheet</th>
+                )}
+                <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Row</th>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Issue</th>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                <tr key={index} className="hover:bg-muted/30 transition-colors">
+                  {showFileColumn && (
+                    <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{issue.fileName}</td>
+                  )}
+                  {showSheetColumn && (
+                    <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{issue.sheetName}</td>
+                  )}
+                  <td className="px-3 py-2 text-xs text-foreground">{issue.row || '—'}</td>
+                  <td className="px-3 py-2 text-xs text-foreground whitespace-nowrap">{ISSUE_LABELS[issue.kind]}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {issues.length > MAX_VISIBLE_ISSUES && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {MAX_VISIBLE_ISSUES} problems. Export the report to see all of them.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleExport} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ValidationReportDialog;
@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { computeLayout, LayoutEdge, LayoutNode, LayoutPositions } from '@/lib/graphLayout';
+import type { LayoutWorkerRequest, LayoutWorkerResponse } from '@/workers/layoutWorker';
+
+// Graphs up to this many nodes are laid out synchronously; beyond it the
+// layout would block the UI noticeably
+const WORKER_THRESHOLD = 400;
+
+// The worker's answer to a request: positions, or the error it failed with
+// (keeping the previous positions)
+interface WorkerResult {
+  requestId: number;
+  positions: LayoutPositions | null;
+  error?: string;
+}
+
+/**
+ * Layered layout positions for the given nodes. Large graphs are laid out in
+ * a worker; until it answers, the previous positions are returned.
+ */
+export const useGraphLayout = (nodes: LayoutNode[], edges: LayoutEdge[]) => {
+  const useWorker = nodes.length > WORKER_THRESHOLD;
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequestRef = useRef(0);
+  const [workerResult, setWorkerResult] = useState<WorkerResult | null>(null);
+  const [pendingRequestId, setPendingRequestId] = useState(0);
+
+  const syncPositions = useMemo(
+    () => (useWorker ? null : computeLayout(nodes, edges)),
+    [useWorker, nodes, edges]
+  );
+
+  useEffect(() => {
+    if (!useWorker) return;
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/layoutWorker.ts', import.meta.url), { type: 'module' });
+    }
+    const worker = workerRef.current;
+    const requestId = ++latestRequestRef.current;
+    setPendingRequestId(requestId);
+
+    const fail = (failedRequestId: number, error: string) => {
+      console.error('Failed to lay out lineage graph', error);
+      setWorkerResult(previous => ({ requestId: failedRequestId, positions: previous?.positions ?? null, error }));
+    };
+
+    worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      const message = event.data;
+      // Only the answer to the newest request matters
+      if (message.requestId !== latestRequestRef.current) return;
+      if ('error' in message) {
+        fail(message.requestId, message.error);
+        return;
+      }
+      setWorkerResult({ requestId: message.requestId, positions: message.positions });
+    };
+    // The worker script itself failed, e.g. to load; no answer will come
+    worker.onerror = event => {
+      event.preventDefault();
+      fail(latestRequestRef.current, event.message || 'The layout worker stopped unexpectedly');
+    };
+    worker.postMessage({ requestId, nodes, edges } satisfies LayoutWorkerRequest);
+  }, [useWorker, nodes, edges]);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  return {
+    positions: useWorker ? workerResult?.positions ?? null : syncPositions,
+    isLayingOut: useWorker && workerResult?.requestId !== pendingRequestId,
+    /** Why the newest layout failed, if it did. */
+    layoutError: useWorker && workerResult?.requestId === pendingRequestId ? workerResult.error ?? null : null,
+  };
+};
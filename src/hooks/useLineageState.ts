@@ -1,12 +1,15 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { CsvDocument } from '@/lib/csv';
 
 interface LineageState {
   nodePositions: Record<string, { x: number; y: number }>;
   hiddenNodes: string[];
+  /** Tables that keep their saved position and cannot be dragged. */
+  pinnedNodes: string[];
   csvHash: string; 
 }
 
-export const useLineageState = (csvData: string[][]) => {
+export const useLineageState = (csvData: CsvDocument) => {
   const getInitialState = (): LineageState => {
     try {
       const saved = localStorage.getItem('lineageState');
@@ -16,6 +19,7 @@ export const useLineageState = (csvData: string[][]) => {
         return {
           nodePositions: parsed.nodePositions || {},
           hiddenNodes: parsed.hiddenNodes || [],
+          pinnedNodes: parsed.pinnedNodes || [],
           csvHash: parsed.csvHash || '',
         };
       }
@@ -26,17 +30,26 @@ export const useLineageState = (csvData: string[][]) => {
     return {
       nodePositions: {},
       hiddenNodes: [],
+      pinnedNodes: [],
       csvHash: '',
     };
   };
 
   const [state, setState] = useState<LineageState>(getInitialState);
 
-  // Generate a simple hash for CSV data
-  const generateCsvHash = (data: string[][]): string => {
-    return btoa(data.map(row => row.join(',')).join('|')).slice(0, 32);
+  // Generate a simple hash for CSV data. Only the first 24 characters of the
+  // joined text reach the 32-character base64 prefix, so stop joining rows
+  // once we have them instead of encoding the whole file on every render.
+  const generateCsvHash = (data: CsvDocument): string => {
+    let text = data.headers.join(',');
+    for (let i = 0; i < data.rows.length && text.length < 24; i++) {
+      text += '|' + data.rows[i].join(',');
+    }
+    return btoa(unescape(encodeURIComponent(text.slice(0, 24)))).slice(0, 32);
   };
 
+  const currentCsvHash = useMemo(() => generateCsvHash(csvData), [csvData]);
+
   // Update state and persist to localStorage
   const updateState = (newState: Partial<LineageState>) => {
     setState(prev => {
@@ -49,6 +62,6 @@ export const useLineageState = (csvData: string[][]) => {
   return {
     state,
     updateState,
-    currentCsvHash: generateCsvHash(csvData),
+    currentCsvHash,
   };
 };
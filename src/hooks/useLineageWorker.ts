@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FilterState } from '@/components/DataLineageFilters';
+import { ImportOptions, lineageFilePath } from '@/lib/importers';
+import type { CsvDocument } from '@/lib/csv';
+import type { LineageSourceSummary } from '@/lib/lineageSources';
+import type { ValidationIssue } from '@/lib/lineageValidation';
+import type { LineageWorkerRequest, LineageWorkerResponse, MappedSource } from '@/workers/lineageWorker';
+
+export interface IngestionProgress {
+  rowCount: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface CompletedLoad {
+  document: CsvDocument;
+  issues: ValidationIssue[];
+}
+
+export interface FilterResult {
+  rowIndexes: Uint32Array;
+  availableValues: Record<string, string[]>;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export const useLineageWorker = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextRequestIdRef = useRef(1);
+  const [progress, setProgress] = useState<IngestionProgress | null>(null);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/lineageWorker.ts', import.meta.url), { type: 'module' });
+    const pending = pendingRef.current;
+
+    worker.onmessage = (event: MessageEvent<LineageWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        const { rowCount, bytesRead, totalBytes } = message;
+        setProgress({ rowCount, bytesRead, totalBytes });
+        return;
+      }
+
+      const request = pending.get(message.requestId);
+      if (!request) return;
+      pending.delete(message.requestId);
+
+      switch (message.type) {
+        case 'loaded':
+          request.resolve(message.sources);
+          break;
+        case 'cancelled':
+          request.resolve(null);
+          break;
+        case 'sheets':
+          request.resolve(message.sheetNames);
+          break;
+        case 'completed':
+          request.resolve({ document: message.document, issues: message.issues });
+          break;
+        case 'filtered':
+          request.resolve({ rowIndexes: message.rowIndexes, availableValues: message.availableValues });
+          break;
+        case 'error':
+          request.reject(new Error(message.message));
+          break;
+      }
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pending.forEach(request => request.reject(new Error('Lineage worker terminated')));
+      pending.clear();
+    };
+  }, []);
+
+  const send = useCallback(<T,>(build: (requestId: number) => LineageWorkerRequest): Promise<T> => {
+    const worker = workerRef.current;
+    if (!worker) return Promise.reject(new Error('Lineage worker is not running'));
+
+    const requestId = nextRequestIdRef.current++;
+    return new Promise<T>((resolve, reject) => {
+      pendingRef.current.set(requestId, { resolve: resolve as (value: unknown) => void, reject });
+      worker.postMessage(build(requestId));
+    });
+  }, []);
+
+  /**
+   * Streams and parses the selected files, one source per import unit. The
+   * rows stay in the worker until `complete`. Resolves with null if the load
+   * was cancelled.
+   */
+  const load = useCallback(async (files: File[], options?: ImportOptions): Promise<LineageSourceSummary[] | null> => {
+    const totalBytes = files.reduce((total, file) => total + file.size, 0);
+    setProgress({ rowCount: 0, bytesRead: 0, totalBytes });
+    try {
+      const paths = files.map(lineageFilePath);
+      return await send<LineageSourceSummary[] | null>(requestId => ({ type: 'load', requestId, files, paths, options }));
+    } finally {
+      setProgress(null);
+    }
+  }, [send]);
+
+  /** Names of the sheets in an Excel workbook. */
+  const listSheets = useCallback((file: File): Promise<string[]> => {
+    return send<string[]>(requestId => ({ type: 'listSheets', requestId, file }));
+  }, [send]);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.postMessage({ type: 'cancel' } satisfies LineageWorkerRequest);
+  }, []);
+
+  /**
+   * Validates the sources of the last load with their mapped headers and
+   * merges them. Resolves with the rows and the problems found.
+   */
+  const complete = useCallback((sources: MappedSource[]): Promise<CompletedLoad> => {
+    return send<CompletedLoad>(requestId => ({ type: 'complete', requestId, sources }));
+  }, [send]);
+
+  /** Applies filters to the rows of the last loaded file. */
+  const filter = useCallback((filters: FilterState): Promise<FilterResult> => {
+    return send<FilterResult>(requestId => ({ type: 'filter', requestId, filters }));
+  }, [send]);
+
+  return { load, listSheets, cancel, complete, filter, progress };
+};
@@ -0,0 +1,69 @@
+// Column-to-column lineage from the optional childColumnName and
+// parentColumnName columns, used to trace a column's path across tables.
+
+export interface ColumnLink {
+  parentTableName: string;
+  parentColumnName: string;
+  childTableName: string;
+  childColumnName: string;
+}
+
+export interface ColumnLinks {
+  parents: Map<string, string[]>;
+  children: Map<string, string[]>;
+}
+
+export interface ColumnPath {
+  /** The column and everything it is derived from. */
+  upstream: Set<string>;
+  /** The column and everything derived from it. */
+  downstream: Set<string>;
+}
+
+export const columnKey = (tableName: string, columnName: string): string =>
+  JSON.stringify([tableName, columnName]);
+
+/** React Flow handle id of a column on the incoming (left) or outgoing (right) side. */
+export const columnHandleId = (side: 'in' | 'out', columnName: string): string => `column-${side}:${columnName}`;
+
+export const buildColumnLinks = (links: ColumnLink[]): ColumnLinks => {
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, from: string, to: string) => {
+    const list = map.get(from);
+    if (!list) map.set(from, [to]);
+    else if (!list.includes(to)) list.push(to);
+  };
+
+  links.forEach(({ parentTableName, parentColumnName, childTableName, childColumnName }) => {
+    const parent = columnKey(parentTableName, parentColumnName);
+    const child = columnKey(childTableName, childColumnName);
+    add(children, parent, child);
+    add(parents, child, parent);
+  });
+
+  return { parents, children };
+};
+
+const walk = (start: string, next: Map<string, string[]>): Set<string> => {
+  const visited = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    (next.get(queue.shift()!) || []).forEach(key => {
+      if (visited.has(key)) return;
+      visited.add(key);
+      queue.push(key);
+    });
+  }
+  return visited;
+};
+
+export const traceColumnPath = (links: ColumnLinks, tableName: string, columnName: string): ColumnPath => {
+  const start = columnKey(tableName, columnName);
+  return { upstream: walk(start, links.parents), downstream: walk(start, links.children) };
+};
+
+/** True if the link parent → child is part of the traced path. */
+export const isOnColumnPath = (path: ColumnPath, parentKey: string, childKey: string): boolean =>
+  (path.upstream.has(parentKey) && path.upstream.has(childKey)) ||
+  (path.downstream.has(parentKey) && path.downstream.has(childKey));
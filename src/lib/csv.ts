@@ -0,0 +1,236 @@
+// RFC 4180 CSV parsing.
+//
+// The parser is incremental: text can be pushed in arbitrary chunks (a quoted
+// field, an escaped quote or a CRLF pair may straddle two chunks) and every
+// completed record is handed to `onRow` together with the physical line it
+// started on. `parseCsv` wraps it for the common whole-string case.
+
+export interface CsvDocument {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvParseError {
+  /**
+   * 1-based physical line on which the offending record starts, or 0 when
+   * the problem comes from an importer and has no line of its own.
+   */
+  line: number;
+  message: string;
+}
+
+export interface ParsedCsv extends CsvDocument {
+  errors: CsvParseError[];
+  /**
+   * Where each row starts in its file, for reports: the physical line of a
+   * CSV record, which differs from its position once a field spans lines,
+   * or the row of a workbook sheet. Without it, rows are counted from 2.
+   */
+  rowLines?: number[];
+  /** Sheet each row was read from, for workbooks. */
+  rowSheets?: string[];
+}
+
+export interface CsvParseOptions {
+  /** Field separator, a single character. Defaults to a comma. */
+  delimiter?: string;
+  /** Trim whitespace around unquoted fields. Defaults to true. */
+  trim?: boolean;
+}
+
+export interface CsvParser {
+  push: (chunk: string) => void;
+  end: () => void;
+  errors: CsvParseError[];
+}
+
+export const EMPTY_CSV: CsvDocument = { headers: [], rows: [] };
+
+const FIELD_START = 0;
+const UNQUOTED = 1;
+const QUOTED = 2;
+const QUOTE_IN_QUOTED = 3;
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+export const createCsvParser = (
+  onRow: (fields: string[], line: number) => void,
+  { delimiter = ',', trim = true }: CsvParseOptions = {}
+): CsvParser => {
+  if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+    throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+  }
+
+  const errors: CsvParseError[] = [];
+  let state = FIELD_START;
+  let field = '';
+  let fieldQuoted = false;
+  let row: string[] = [];
+  let line = 1;
+  let rowLine = 1;
+  let skipLineFeed = false;
+  let quotedCarriageReturn = false;
+  let started = false;
+
+  const endField = () => {
+    row.push(fieldQuoted || !trim ? field : field.trim());
+    field = '';
+    fieldQuoted = false;
+    state = FIELD_START;
+  };
+
+  const endRow = () => {
+    const blank = row.length === 0 && !fieldQuoted && field.trim() === '';
+    endField();
+    if (!blank) onRow(row, rowLine);
+    row = [];
+  };
+
+  const newLine = (char: string) => {
+    endRow();
+    line++;
+    rowLine = line;
+    skipLineFeed = char === '\r';
+  };
+
+  const push = (chunk: string) => {
+    let start = 0;
+    if (!started && chunk.length > 0) {
+      started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      switch (state) {
+        case FIELD_START:
+        case UNQUOTED:
+          if (char === delimiter) {
+            endField();
+          } else if (char === '\n' || char === '\r') {
+            newLine(char);
+          } else if (char === '"') {
+            if (state === FIELD_START || (trim && field.trim() === '')) {
+              field = '';
+              fieldQuoted = true;
+              state = QUOTED;
+            } else {
+              errors.push({ line: rowLine, message: 'Unexpected quote inside an unquoted field' });
+              field += char;
+            }
+          } else {
+            field += char;
+            state = UNQUOTED;
+          }
+          break;
+
+        case QUOTED:
+          if (char === '"') {
+            quotedCarriageReturn = false;
+            state = QUOTE_IN_QUOTED;
+          } else {
+            if (char === '\r' || (char === '\n' && !quotedCarriageReturn)) line++;
+            quotedCarriageReturn = char === '\r';
+            field += char;
+          }
+          break;
+
+        case QUOTE_IN_QUOTED:
+          if (char === '"') {
+            field += '"';
+            state = QUOTED;
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === '\n' || char === '\r') {
+            newLine(char);
+          } else if (char !== ' ' && char !== '\t') {
+            errors.push({ line: rowLine, message: 'Unexpected characters after a closing quote' });
+            field += char;
+            state = UNQUOTED;
+          }
+          break;
+      }
+    }
+  };
+
+  const end = () => {
+    if (state === QUOTED) {
+      errors.push({ line: rowLine, message: 'Unterminated quoted field' });
+    }
+    endRow();
+  };
+
+  return { push, end, errors };
+};
+
+/**
+ * Guess the delimiter from the first record of a sample: the candidate that
+ * occurs most often outside quotes wins, with a comma as the fallback.
+ */
+export const detectDelimiter = (sample: string): string => {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+
+  for (let i = 0; i < sample.length; i++) {
+    const char = sample[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+  }
+
+  let best = ',';
+  let bestCount = 0;
+  counts.forEach((count, delimiter) => {
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+export const parseCsv = (text: string, options: CsvParseOptions = {}): ParsedCsv => {
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+  const rowLines: number[] = [];
+
+  const parser = createCsvParser((fields, line) => {
+    if (headers === null) {
+      headers = fields;
+    } else {
+      rows.push(fields);
+      rowLines.push(line);
+    }
+  }, options);
+
+  parser.push(text);
+  parser.end();
+
+  return { headers: headers || [], rows, errors: parser.errors, rowLines };
+};
+
+const quoteField = (value: string, delimiter: string): string => {
+  const needsQuotes =
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes('\n') ||
+    value.includes('\r') ||
+    value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/** Serialize records as RFC 4180 CSV with CRLF line endings. */
+export const serializeCsv = (records: string[][], delimiter = ','): string =>
+  records
+    .map(record => record.map(value => quoteField(value ?? '', delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
@@ -0,0 +1,175 @@
+// Circular lineage. Views that read each other and backfills that write to
+// their own sources make real lineage graphs cyclic; the cycles are found as
+// strongly connected components so that they can be shown, exported and laid
+// out independently of row order.
+
+export interface DirectedEdge {
+  source: string;
+  target: string;
+}
+
+export interface LineageCycle {
+  /** Tables of the strongly connected component, sorted. */
+  tables: string[];
+  /** One closed path through the component, starting and ending at its first table. */
+  path: string[];
+  edgeCount: number;
+}
+
+const adjacency = (nodes: string[], edges: DirectedEdge[]) => {
+  const next = new Map<string, string[]>(nodes.map(node => [node, []]));
+  edges.forEach(({ source, target }) => {
+    if (next.has(source) && next.has(target)) next.get(source)!.push(target);
+  });
+  // Sorted neighbours make every traversal below independent of row order
+  next.forEach(targets => targets.sort());
+  return next;
+};
+
+/** Tarjan's algorithm, iterative so that long chains cannot overflow the stack. */
+export const findStronglyConnectedComponents = (nodes: string[], edges: DirectedEdge[]): string[][] => {
+  const next = adjacency(nodes, edges);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  [...nodes].sort().forEach(root => {
+    if (index.has(root)) return;
+    const work: { node: string; neighbour: number }[] = [{ node: root, neighbour: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = next.get(frame.node)!;
+
+      if (frame.neighbour < targets.length) {
+        const target = targets[frame.neighbour++];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter++);
+          stack.push(target);
+          onStack.add(target);
+          work.push({ node: target, neighbour: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component.sort());
+      }
+    }
+  });
+
+  return components;
+};
+
+/** Shortest path from `start` back to itself within `members`. */
+const shortestCycle = (start: string, members: Set<string>, next: Map<string, string[]>): string[] => {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    for (const target of next.get(node)!) {
+      if (!members.has(target)) continue;
+      if (target === start) {
+        const path = [start];
+        for (let step = node; step !== start; step = previous.get(step)!) path.splice(1, 0, step);
+        return [...path, start];
+      }
+      if (!previous.has(target)) {
+        previous.set(target, node);
+        queue.push(target);
+      }
+    }
+  }
+  return [start];
+};
+
+/** Every cyclic component (including tables that feed themselves), largest first. */
+export const findCycles = (nodes: string[], edges: DirectedEdge[]): LineageCycle[] => {
+  const next = adjacency(nodes, edges);
+  return findStronglyConnectedComponents(nodes, edges)
+    .filter(tables => tables.length > 1 || next.get(tables[0])!.includes(tables[0]))
+    .map(tables => {
+      const members = new Set(tables);
+      const edgeCount = edges.filter(({ source, target }) => members.has(source) && members.has(target)).length;
+      return { tables, path: shortestCycle(tables[0], members, next), edgeCount };
+    })
+    .sort((a, b) => b.tables.length - a.tables.length || a.tables[0].localeCompare(b.tables[0]));
+};
+
+/** Component of each table that is part of a cycle. */
+export const cycleMembership = (cycles: LineageCycle[]): Map<string, number> => {
+  const membership = new Map<string, number>();
+  cycles.forEach(({ tables }, cycleIndex) => tables.forEach(table => membership.set(table, cycleIndex)));
+  return membership;
+};
+
+export const isCycleEdge = (membership: Map<string, number>, source: string, target: string): boolean =>
+  membership.has(source) && membership.get(source) === membership.get(target);
+
+/**
+ * The edges with cycles broken deterministically: within each component,
+ * tables are ordered by a depth-first walk from the alphabetically first
+ * table and edges pointing back in that order are reversed. The layout then
+ * does not depend on which row happened to come first.
+ */
+export const breakCycles = (nodes: string[], edges: DirectedEdge[]): DirectedEdge[] => {
+  const cycles = findCycles(nodes, edges);
+  if (cycles.length === 0) return edges;
+
+  const next = adjacency(nodes, edges);
+  const membership = cycleMembership(cycles);
+  const order = new Map<string, number>();
+  cycles.forEach(({ tables }) => {
+    const members = new Set(tables);
+    const visit = [tables[0]];
+    while (visit.length > 0) {
+      const node = visit.pop()!;
+      if (order.has(node)) continue;
+      order.set(node, order.size);
+      // Reverse so that the alphabetically first neighbour is visited first
+      [...next.get(node)!].reverse().forEach(target => {
+        if (members.has(target) && !order.has(target)) visit.push(target);
+      });
+    }
+  });
+
+  return edges
+    .filter(({ source, target }) => source !== target)
+    .map(edge => {
+      if (!isCycleEdge(membership, edge.source, edge.target)) return edge;
+      return order.get(edge.target)! < order.get(edge.source)! ? { source: edge.target, target: edge.source } : edge;
+    });
+};
+
+export const cyclesToCsvRecords = (cycles: LineageCycle[]): string[][] => [
+  ['cycle', 'tableCount', 'edgeCount', 'tables', 'examplePath'],
+  ...cycles.map(({ tables, path, edgeCount }, index) => [
+    String(index + 1),
+    String(tables.length),
+    String(edgeCount),
+    tables.join('; '),
+    path.join(' → '),
+  ]),
+];
@@ -0,0 +1,59 @@
+// Download of lineage rows in the common tabular formats, columns in their
+// original order.
+
+import { utils, write } from 'xlsx';
+import { CsvDocument, serializeCsv } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+
+export type DatasetFormat = 'csv' | 'tsv' | 'json' | 'xlsx';
+
+export const DATASET_FORMATS: { format: DatasetFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'tsv', label: 'TSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+/** Rows whose tables are all in `visibleTables`; empty table names are ignored. */
+export const rowsWithVisibleTables = (csvData: CsvDocument, visibleTables: Set<string>): CsvDocument => {
+  const headers = csvData.headers.map(header => header.toLowerCase().trim());
+  const childIndex = headers.indexOf('childtablename');
+  const parentIndex = headers.indexOf('parenttablename');
+  const isVisible = (tableName: string | undefined) => !tableName || visibleTables.has(tableName);
+  return {
+    headers: csvData.headers,
+    rows: csvData.rows.filter(row => isVisible(row[childIndex]) && isVisible(row[parentIndex])),
+  };
+};
+
+/** One object per row, keyed by header; missing trailing fields become empty strings. */
+const toJson = ({ headers, rows }: CsvDocument): string =>
+  JSON.stringify(
+    rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? '']))),
+    null,
+    2
+  );
+
+const toXlsx = ({ headers, rows }: CsvDocument): ArrayBuffer => {
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet([headers, ...rows]), 'Lineage');
+  return write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+export const downloadDataset = (csvData: CsvDocument, format: DatasetFormat, baseName: string) => {
+  const fileName = `${baseName}.${format}`;
+  const records = [csvData.headers, ...csvData.rows];
+  if (format === 'csv') {
+    downloadFile(fileName, serializeCsv(records), 'text/csv;charset=utf-8');
+  } else if (format === 'tsv') {
+    downloadFile(fileName, serializeCsv(records, '\t'), 'text/tab-separated-values;charset=utf-8');
+  } else if (format === 'json') {
+    downloadFile(fileName, toJson(csvData), 'application/json');
+  } else {
+    downloadFile(
+      fileName,
+      toXlsx(csvData),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  }
+};
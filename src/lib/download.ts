@@ -0,0 +1,17 @@
+/** Save generated content through the browser's (or Electron's) download flow. */
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** File name without its extension, for naming exports after their source. */
+export const baseFileName = (fileName: string): string =>
+  fileName.replace(/\.[^./\\]+$/, '') || 'lineage';
@@ -0,0 +1,52 @@
+// Graphviz DOT. Node positions go into `pos` attributes (points, y up) that
+// `neato -n2` keeps; other layout engines lay the graph out again.
+
+import { ExportGraph, ExportNode, formatNumber, typeColors } from './graph';
+
+const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+const attributes = (values: Record<string, string | undefined>): string =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}=${quote(value!)}`)
+    .join(', ');
+
+export const serializeDot = (graph: ExportGraph): string => {
+  const colors = typeColors(graph);
+  const nodeLine = (indent: string, node: ExportNode) =>
+    `${indent}${quote(node.id)} [${attributes({
+      label: node.label,
+      tabletype: node.type,
+      fillcolor: colors.get(node.type),
+      pos: `${formatNumber(node.x + node.width / 2)},${formatNumber(-(node.y + node.height / 2))}!`,
+    })}];`;
+
+  const lines = [
+    'digraph lineage {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled"];',
+  ];
+
+  graph.clusters.forEach((cluster, index) => {
+    lines.push(`  subgraph ${quote(`cluster_${index}`)} {`);
+    lines.push(`    label=${quote(cluster.label)};`);
+    lines.push('    style=dashed;');
+    graph.nodes.filter(node => node.cluster === cluster.id).forEach(node => lines.push(nodeLine('    ', node)));
+    lines.push('  }');
+  });
+  graph.nodes.filter(node => !node.cluster).forEach(node => lines.push(nodeLine('  ', node)));
+
+  graph.edges.forEach(edge => {
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [${attributes({
+      label: edge.relationship,
+      relationship: edge.relationship,
+      parentcolumn: edge.sourceColumn,
+      childcolumn: edge.targetColumn,
+      weight: edge.weight > 1 ? String(edge.weight) : undefined,
+      style: edge.derived ? 'dashed' : undefined,
+    })}];`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,66 @@
+// GEXF 1.3 for Gephi. Positions and type colours go into the viz namespace;
+// Gephi's y axis points up, so y is flipped.
+
+import { ExportGraph, escapeXml, formatNumber, typeColors } from './graph';
+
+const attValues = (values: Record<string, string | undefined>): string => {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined && value !== '');
+  if (entries.length === 0) return '';
+  return `<attvalues>${entries
+    .map(([key, value]) => `<attvalue for="${key}" value="${escapeXml(value!)}"/>`)
+    .join('')}</attvalues>`;
+};
+
+const rgb = (color: string) => {
+  const value = parseInt(color.slice(1), 16);
+  return `r="${(value >> 16) & 255}" g="${(value >> 8) & 255}" b="${value & 255}"`;
+};
+
+export const serializeGexf = (graph: ExportGraph): string => {
+  const colors = typeColors(graph);
+  const clusterLabels = new Map(graph.clusters.map(cluster => [cluster.id, cluster.label]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="group" title="group" type="string"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="relationship" title="relationship" type="string"/>',
+    '      <attribute id="derived" title="derived" type="boolean"/>',
+    '      <attribute id="parentColumn" title="parentColumn" type="string"/>',
+    '      <attribute id="childColumn" title="childColumn" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  graph.nodes.forEach(node => {
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">` +
+      attValues({ type: node.type, group: node.cluster && clusterLabels.get(node.cluster) }) +
+      `<viz:color ${rgb(colors.get(node.type)!)}/>` +
+      `<viz:position x="${formatNumber(node.x + node.width / 2)}" y="${formatNumber(-(node.y + node.height / 2))}" z="0"/>` +
+      '</node>'
+    );
+  });
+
+  lines.push('    </nodes>', '    <edges>');
+  graph.edges.forEach((edge, index) => {
+    const label = edge.relationship ? ` label="${escapeXml(edge.relationship)}"` : '';
+    lines.push(
+      `      <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${label} weight="${edge.weight}">` +
+      attValues({
+        relationship: edge.relationship,
+        derived: String(edge.derived),
+        parentColumn: edge.sourceColumn,
+        childColumn: edge.targetColumn,
+      }) +
+      '</edge>'
+    );
+  });
+
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+};
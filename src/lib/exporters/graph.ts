@@ -0,0 +1,122 @@
+// The drawn graph in a form the text serializers share: what is on screen
+// after filters, hiding, focus and grouping, with absolute positions.
+
+import { Edge, Node, XYPosition } from '@xyflow/react';
+
+export interface ExportNode {
+  id: string;
+  label: string;
+  /** Table type, or `group` for a collapsed group. */
+  type: string;
+  /** Id of the expanded group the node is drawn in. */
+  cluster?: string;
+  /** Top-left corner and size, in screen pixels with y growing downwards. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  namespace?: string;
+  sourceFiles?: string[];
+  conflictingTypes?: string[];
+  parents?: string[];
+  children?: string[];
+}
+
+export interface ExportCluster {
+  id: string;
+  label: string;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  relationship: string;
+  /** Bypass and rolled-up edges, which are not rows of the data. */
+  derived: boolean;
+  /** Number of edges a rolled-up edge stands for, otherwise 1. */
+  weight: number;
+  sourceColumn?: string;
+  targetColumn?: string;
+  /** Table names at either end, which differ from source/target for rolled-up edges. */
+  parentTableName?: string;
+  childTableName?: string;
+  sourceFiles?: string[];
+  inCycle?: boolean;
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  clusters: ExportCluster[];
+}
+
+/** Build the export model from React Flow's nodes and edges. */
+export const buildExportGraph = (
+  nodes: Node[],
+  edges: Edge[],
+  absolutePosition: (node: Node) => XYPosition
+): ExportGraph => {
+  const graph: ExportGraph = { nodes: [], edges: [], clusters: [] };
+
+  nodes.forEach(node => {
+    const data = node.data as Record<string, unknown>;
+    if (node.type === 'tableGroup' && !data.collapsed) {
+      graph.clusters.push({ id: node.id, label: String(data.label) });
+      return;
+    }
+    const { x, y } = absolutePosition(node);
+    graph.nodes.push({
+      id: node.id,
+      label: node.type === 'tableGroup' ? `${data.label} (${data.tableCount} tables)` : node.id,
+      type: node.type === 'tableGroup' ? 'group' : String(data.tableType || ''),
+      cluster: node.parentId,
+      x,
+      y,
+      width: node.measured?.width || 0,
+      height: node.measured?.height || 0,
+      namespace: data.namespace as string | undefined,
+      sourceFiles: data.sourceFiles as string[] | undefined,
+      conflictingTypes: data.conflictingTypes as string[] | undefined,
+      parents: data.parents as string[] | undefined,
+      children: data.children as string[] | undefined,
+    });
+  });
+
+  edges.forEach(edge => {
+    const data = (edge.data || {}) as Record<string, unknown>;
+    graph.edges.push({
+      source: edge.source,
+      target: edge.target,
+      relationship: String(data.relationship || ''),
+      derived: Boolean(data.derived),
+      weight: Number(data.rolledUpCount) || 1,
+      sourceColumn: data.parentColumnName as string | undefined,
+      targetColumn: data.childColumnName as string | undefined,
+      parentTableName: data.parentTableName as string | undefined,
+      childTableName: data.childTableName as string | undefined,
+      sourceFiles: data.sourceFiles as string[] | undefined,
+      inCycle: Boolean(data.inCycle),
+    });
+  });
+
+  return graph;
+};
+
+const TYPE_COLORS = ['#dbeafe', '#dcfce7', '#fef9c3', '#fce7f3', '#ede9fe', '#ffedd5', '#cffafe', '#e2e8f0'];
+
+/** A fill colour for each node type, assigned in name order. */
+export const typeColors = (graph: ExportGraph): Map<string, string> => {
+  const types = Array.from(new Set(graph.nodes.map(node => node.type))).sort();
+  return new Map(types.map((type, index) => [type, TYPE_COLORS[index % TYPE_COLORS.length]]));
+};
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** Format a coordinate without float noise. */
+export const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
@@ -0,0 +1,60 @@
+// GraphML with plain data keys. `x` and `y` are the attribute names Gephi
+// and yEd's importers pick up as positions.
+
+import { ExportGraph, escapeXml, formatNumber } from './graph';
+
+const KEYS = [
+  { id: 'label', for: 'node', type: 'string' },
+  { id: 'type', for: 'node', type: 'string' },
+  { id: 'group', for: 'node', type: 'string' },
+  { id: 'x', for: 'node', type: 'double' },
+  { id: 'y', for: 'node', type: 'double' },
+  { id: 'width', for: 'node', type: 'double' },
+  { id: 'height', for: 'node', type: 'double' },
+  { id: 'relationship', for: 'edge', type: 'string' },
+  { id: 'derived', for: 'edge', type: 'boolean' },
+  { id: 'weight', for: 'edge', type: 'int' },
+  { id: 'parentColumn', for: 'edge', type: 'string' },
+  { id: 'childColumn', for: 'edge', type: 'string' },
+];
+
+const dataElements = (values: Record<string, string | undefined>): string =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `<data key="${key}">${escapeXml(value!)}</data>`)
+    .join('');
+
+export const serializeGraphMl = (graph: ExportGraph): string => {
+  const clusterLabels = new Map(graph.clusters.map(cluster => [cluster.id, cluster.label]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...KEYS.map(key => `  <key id="${key.id}" for="${key.for}" attr.name="${key.id}" attr.type="${key.type}"/>`),
+    '  <graph id="lineage" edgedefault="directed">',
+  ];
+
+  graph.nodes.forEach(node => {
+    lines.push(`    <node id="${escapeXml(node.id)}">${dataElements({
+      label: node.label,
+      type: node.type,
+      group: node.cluster && clusterLabels.get(node.cluster),
+      x: formatNumber(node.x + node.width / 2),
+      y: formatNumber(node.y + node.height / 2),
+      width: formatNumber(node.width),
+      height: formatNumber(node.height),
+    })}</node>`);
+  });
+
+  graph.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${dataElements({
+      relationship: edge.relationship,
+      derived: String(edge.derived),
+      weight: String(edge.weight),
+      parentColumn: edge.sourceColumn,
+      childColumn: edge.targetColumn,
+    })}</edge>`);
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+};
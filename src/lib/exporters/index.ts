@@ -0,0 +1,32 @@
+// Entry point for exporting the drawn graph to other graph tools' formats.
+
+import { serializeDot } from './dot';
+import { ExportGraph } from './graph';
+import { serializeGexf } from './gexf';
+import { serializeGraphMl } from './graphml';
+import { serializeMermaid } from './mermaid';
+
+export { buildExportGraph } from './graph';
+export type { ExportGraph } from './graph';
+
+export type GraphTextFormat = 'dot' | 'mermaid' | 'graphml' | 'gexf';
+
+export const GRAPH_TEXT_FORMATS: { format: GraphTextFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'dot', label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  { format: 'mermaid', label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+  { format: 'graphml', label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml' },
+  { format: 'gexf', label: 'GEXF (Gephi)', extension: 'gexf', mimeType: 'application/gexf+xml' },
+];
+
+export const serializeGraph = (graph: ExportGraph, format: GraphTextFormat): string => {
+  switch (format) {
+    case 'dot':
+      return serializeDot(graph);
+    case 'mermaid':
+      return serializeMermaid(graph);
+    case 'graphml':
+      return serializeGraphMl(graph);
+    case 'gexf':
+      return serializeGexf(graph);
+  }
+};
@@ -0,0 +1,49 @@
+// Mermaid flowchart. Mermaid always lays out diagrams itself, so positions
+// are dropped; node types become classes named after the type, so importing
+// the diagram again gives tables their types back, and expanded groups
+// become subgraphs.
+
+import { ExportGraph, ExportNode, typeColors } from './graph';
+
+/** Quoted Mermaid text; quotes and line breaks have no escape but entities. */
+const text = (value: string): string => `"${value.replace(/"/g, '#quot;').replace(/\r?\n/g, ' ')}"`;
+
+export const serializeMermaid = (graph: ExportGraph): string => {
+  // Table names are rarely valid Mermaid ids, so nodes are numbered
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const colors = typeColors(graph);
+  const classNames = new Map<string, string>();
+  colors.forEach((_, type) => {
+    if (!type) return;
+    const name = type.replace(/[^\w-]/g, '_');
+    const taken = Array.from(classNames.values()).includes(name);
+    classNames.set(type, taken ? `${name}_${classNames.size}` : name);
+  });
+  const nodeLine = (indent: string, node: ExportNode) => `${indent}${ids.get(node.id)}[${text(node.label)}]`;
+
+  const lines = ['flowchart LR'];
+
+  graph.clusters.forEach((cluster, index) => {
+    lines.push(`  subgraph g${index}[${text(cluster.label)}]`);
+    graph.nodes.filter(node => node.cluster === cluster.id).forEach(node => lines.push(nodeLine('    ', node)));
+    lines.push('  end');
+  });
+  graph.nodes.filter(node => !node.cluster).forEach(node => lines.push(nodeLine('  ', node)));
+
+  graph.edges.forEach(edge => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+    const arrow = edge.derived ? '-.->' : '-->';
+    lines.push(`  ${source} ${arrow}${edge.relationship ? `|${text(edge.relationship)}|` : ''} ${target}`);
+  });
+
+  colors.forEach((color, type) => {
+    if (!classNames.has(type)) return;
+    const members = graph.nodes.filter(node => node.type === type).map(node => ids.get(node.id));
+    lines.push(`  classDef ${classNames.get(type)} fill:${color},stroke:#64748b`);
+    lines.push(`  class ${members.join(',')} ${classNames.get(type)}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,125 @@
+// Export of the whole graph, not just the visible part of it, as an image or
+// a PDF. The React Flow viewport is rendered off-screen with a transform that
+// brings every node into frame at 100% zoom.
+
+import { toBlob, toCanvas, toSvg } from 'html-to-image';
+import { jsPDF } from 'jspdf';
+import { Rect } from '@xyflow/react';
+import { downloadFile } from '@/lib/download';
+
+export type GraphExportFormat = 'svg' | 'png' | 'pdf';
+export type GraphExportBackground = 'transparent' | 'themed';
+
+export interface GraphExportOptions {
+  format: GraphExportFormat;
+  background: GraphExportBackground;
+}
+
+const PADDING = 40;
+const PNG_PIXEL_RATIO = 3;
+const PDF_PIXEL_RATIO = 2;
+// Browsers refuse to draw canvases much larger than this on either side
+const MAX_CANVAS_SIDE = 16384;
+
+// A4 landscape, in millimetres
+const PAGE_WIDTH = 297;
+const PAGE_HEIGHT = 210;
+const PAGE_MARGIN = 10;
+const FOOTER_HEIGHT = 6;
+const MM_PER_PX = 25.4 / 96;
+// Graphs that fit one page at this scale or more are shrunk instead of tiled
+const MIN_SINGLE_PAGE_SCALE = 0.6;
+
+const renderOptions = (bounds: Rect, backgroundColor: string | undefined, pixelRatio: number) => {
+  const width = Math.ceil(bounds.width + PADDING * 2);
+  const height = Math.ceil(bounds.height + PADDING * 2);
+  return {
+    width,
+    height,
+    backgroundColor,
+    pixelRatio: Math.min(pixelRatio, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height),
+    style: {
+      width: `${width}px`,
+      height: `${height}px`,
+      transform: `translate(${PADDING - bounds.x}px, ${PADDING - bounds.y}px) scale(1)`,
+    },
+  };
+};
+
+/** Tile the rendered graph across A4 pages at print size, or shrink it onto one page if it nearly fits. */
+const canvasToPdf = (canvas: HTMLCanvasElement, width: number, height: number): jsPDF => {
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const areaWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+  const areaHeight = PAGE_HEIGHT - PAGE_MARGIN * 2 - FOOTER_HEIGHT;
+  const fitScale = Math.min(areaWidth / (width * MM_PER_PX), areaHeight / (height * MM_PER_PX));
+  const mmPerPx = fitScale >= MIN_SINGLE_PAGE_SCALE ? MM_PER_PX * Math.min(fitScale, 1) : MM_PER_PX;
+
+  // Size of one page's share of the graph, in graph and canvas pixels
+  const tileWidth = areaWidth / mmPerPx;
+  const tileHeight = areaHeight / mmPerPx;
+  const pixelRatio = canvas.width / width;
+  const columns = Math.ceil(width / tileWidth);
+  const rows = Math.ceil(height / tileHeight);
+
+  const tile = document.createElement('canvas');
+  const context = tile.getContext('2d')!;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const sourceWidth = Math.min(tileWidth, width - column * tileWidth);
+      const sourceHeight = Math.min(tileHeight, height - row * tileHeight);
+      tile.width = Math.ceil(sourceWidth * pixelRatio);
+      tile.height = Math.ceil(sourceHeight * pixelRatio);
+      context.drawImage(
+        canvas,
+        column * tileWidth * pixelRatio,
+        row * tileHeight * pixelRatio,
+        tile.width,
+        tile.height,
+        0,
+        0,
+        tile.width,
+        tile.height
+      );
+
+      if (row > 0 || column > 0) pdf.addPage();
+      pdf.addImage(tile, 'PNG', PAGE_MARGIN, PAGE_MARGIN, sourceWidth * mmPerPx, sourceHeight * mmPerPx);
+      if (rows * columns > 1) {
+        pdf.setFontSize(8);
+        pdf.text(
+          `Row ${row + 1} of ${rows}, column ${column + 1} of ${columns}`,
+          PAGE_MARGIN,
+          PAGE_HEIGHT - PAGE_MARGIN
+        );
+      }
+    }
+  }
+  return pdf;
+};
+
+/**
+ * Render the graph inside `viewport` (the `.react-flow__viewport` element)
+ * and download it. `bounds` covers every node, in flow coordinates.
+ */
+export const exportGraph = async (
+  viewport: HTMLElement,
+  bounds: Rect,
+  backgroundColor: string,
+  { format, background }: GraphExportOptions
+) => {
+  const fileName = `lineage-graph.${format}`;
+  const color = background === 'themed' ? backgroundColor : undefined;
+
+  if (format === 'svg') {
+    const dataUrl = await toSvg(viewport, renderOptions(bounds, color, 1));
+    const svg = decodeURIComponent(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    downloadFile(fileName, svg, 'image/svg+xml');
+  } else if (format === 'png') {
+    const blob = await toBlob(viewport, renderOptions(bounds, color, PNG_PIXEL_RATIO));
+    if (!blob) throw new Error('The graph could not be rendered');
+    downloadFile(fileName, blob, 'image/png');
+  } else {
+    const options = renderOptions(bounds, color, PDF_PIXEL_RATIO);
+    const canvas = await toCanvas(viewport, options);
+    downloadFile(fileName, canvasToPdf(canvas, options.width, options.height).output('blob'), 'application/pdf');
+  }
+};
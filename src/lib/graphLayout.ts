@@ -0,0 +1,140 @@
+// Layered (Sugiyama-style) layout of the lineage graph.
+//
+// dagre assigns ranks, reduces crossings and positions nodes within each
+// connected component; the components are then packed onto shelves so that
+// unrelated islands do not stretch a single huge layer. Nodes may belong to a
+// group, which dagre lays out as a cluster around its members. Pure functions
+// only, so the same code runs on the main thread and in the layout worker.
+
+import dagre from 'dagre';
+import { breakCycles } from '@/lib/cycles';
+
+export interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  /** Id of the group the node is drawn inside, if any. */
+  parent?: string;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Top-left corner and size of every node and group. */
+export type LayoutPositions = Record<string, LayoutBox>;
+
+const NODE_SEPARATION = 40;
+const RANK_SEPARATION = 120;
+const COMPONENT_GAP = 80;
+
+/** Weakly connected components, in the order their first node appears; a group stays in one component. */
+const connectedComponents = (nodes: LayoutNode[], edges: LayoutEdge[]): LayoutNode[][] => {
+  const parent = new Map(nodes.map(node => [node.id, node.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    while (parent.get(id) !== root) {
+      const next = parent.get(id)!;
+      parent.set(id, root);
+      id = next;
+    }
+    return root;
+  };
+
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+  edges.forEach(({ source, target }) => {
+    if (parent.has(source) && parent.has(target)) union(source, target);
+  });
+  const firstMember = new Map<string, string>();
+  nodes.forEach(({ id, parent: group }) => {
+    if (!group) return;
+    if (firstMember.has(group)) union(id, firstMember.get(group)!);
+    else firstMember.set(group, id);
+  });
+
+  const components = new Map<string, LayoutNode[]>();
+  nodes.forEach(node => {
+    const root = find(node.id);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(node);
+  });
+  return Array.from(components.values());
+};
+
+const layoutComponent = (nodes: LayoutNode[], edges: LayoutEdge[]) => {
+  const groups = new Set(nodes.flatMap(node => (node.parent ? [node.parent] : [])));
+  const graph = new dagre.graphlib.Graph({ multigraph: false, compound: groups.size > 0 });
+  graph.setGraph({ rankdir: 'LR', nodesep: NODE_SEPARATION, ranksep: RANK_SEPARATION, marginx: 0, marginy: 0 });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  groups.forEach(group => graph.setNode(group, {}));
+  nodes.forEach(({ id, width, height, parent }) => {
+    graph.setNode(id, { width, height });
+    if (parent) graph.setParent(id, parent);
+  });
+  // Sorted edges keep crossing reduction independent of row order
+  [...edges].sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target)).forEach(({ source, target }) => {
+    if (graph.hasNode(source) && graph.hasNode(target) && source !== target) graph.setEdge(source, target);
+  });
+
+  dagre.layout(graph);
+
+  // dagre reports centres; React Flow positions are top-left corners
+  const positions: LayoutPositions = {};
+  let width = 0;
+  let height = 0;
+  [...nodes.map(node => node.id), ...groups].forEach(id => {
+    const { x, y, width: nodeWidth, height: nodeHeight } = graph.node(id);
+    positions[id] = { x: x - nodeWidth / 2, y: y - nodeHeight / 2, width: nodeWidth, height: nodeHeight };
+    width = Math.max(width, x + nodeWidth / 2);
+    height = Math.max(height, y + nodeHeight / 2);
+  });
+  return { positions, width, height };
+};
+
+/**
+ * Boxes of every node and group. Components are laid out separately and
+ * packed largest first onto rows about as wide as the whole layout is tall.
+ */
+export const computeLayout = (nodes: LayoutNode[], allEdges: LayoutEdge[]): LayoutPositions => {
+  // dagre would break cycles by input order; do it deterministically instead
+  const edges = breakCycles(nodes.map(node => node.id), allEdges);
+  const laidOut = connectedComponents(nodes, edges)
+    .map(component => {
+      const ids = new Set(component.map(node => node.id));
+      return layoutComponent(component, edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)));
+    })
+    .sort((a, b) => b.width * b.height - a.width * a.height);
+
+  const totalArea = laidOut.reduce((total, { width, height }) => total + (width + COMPONENT_GAP) * (height + COMPONENT_GAP), 0);
+  const rowWidth = Math.max(Math.sqrt(totalArea) * 1.5, ...laidOut.map(({ width }) => width));
+
+  const positions: LayoutPositions = {};
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  laidOut.forEach(component => {
+    if (x > 0 && x + component.width > rowWidth) {
+      x = 0;
+      y += rowHeight + COMPONENT_GAP;
+      rowHeight = 0;
+    }
+    Object.entries(component.positions).forEach(([id, box]) => {
+      positions[id] = { ...box, x: box.x + x, y: box.y + y };
+    });
+    x += component.width + COMPONENT_GAP;
+    rowHeight = Math.max(rowHeight, component.height);
+  });
+
+  return positions;
+};
@@ -0,0 +1,184 @@
+// Mapping of arbitrary lineage file headers onto the columns the explorer
+// understands. Mapped columns are renamed to their canonical names, so the
+// graph, filters and table keep working on childTableName/parentTableName/...
+
+import { CsvDocument } from '@/lib/csv';
+
+export const LINEAGE_ROLES = [
+  'childTableName',
+  'childTableType',
+  'relationship',
+  'parentTableName',
+  'parentTableType',
+] as const;
+
+export type LineageRole = (typeof LINEAGE_ROLES)[number];
+
+// Many exports have no table types; their tables are then left untyped, as
+// the graph and filters already do for a blank type
+export const OPTIONAL_ROLES: ReadonlySet<LineageRole> = new Set(['childTableType', 'parentTableType']);
+
+/** Column index assigned to each role, or -1 when unassigned. */
+export type HeaderMapping = Record<LineageRole, number>;
+
+export const ROLE_LABELS: Record<LineageRole, string> = {
+  childTableName: 'Child table name',
+  childTableType: 'Child table type',
+  relationship: 'Relationship',
+  parentTableName: 'Parent table name',
+  parentTableType: 'Parent table type',
+};
+
+// Normalized header spellings for each role, best match first. "Source" and
+// "upstream" are the parent side of an edge, "target" and "downstream" the child.
+const ROLE_SYNONYMS: Record<LineageRole, string[]> = {
+  childTableName: [
+    'childtablename', 'childtable', 'child', 'childname', 'targettable', 'targettablename', 'target',
+    'targetname', 'totable', 'to', 'downstreamtable', 'downstream', 'destinationtable', 'destination',
+    'dependenttable',
+  ],
+  childTableType: [
+    'childtabletype', 'childtype', 'targettabletype', 'targettype', 'totype', 'downstreamtype',
+    'downstreamtabletype', 'destinationtype',
+  ],
+  relationship: [
+    'relationship', 'relation', 'relationshiptype', 'edgetype', 'edge', 'linktype', 'dependencytype',
+    'lineagetype', 'type', 'kind',
+  ],
+  parentTableName: [
+    'parenttablename', 'parenttable', 'parent', 'parentname', 'sourcetable', 'sourcetablename', 'source',
+    'sourcename', 'fromtable', 'from', 'upstreamtable', 'upstream', 'origintable', 'origin',
+  ],
+  parentTableType: [
+    'parenttabletype', 'parenttype', 'sourcetabletype', 'sourcetype', 'fromtype', 'upstreamtype',
+    'upstreamtabletype', 'origintype',
+  ],
+};
+
+// Optional columns for column-level lineage. They need no confirmation and
+// are renamed whenever one of these spellings is found.
+const OPTIONAL_COLUMN_SYNONYMS: Record<string, string[]> = {
+  childColumnName: [
+    'childcolumnname', 'childcolumn', 'targetcolumn', 'targetcolumnname', 'tocolumn', 'downstreamcolumn',
+  ],
+  parentColumnName: [
+    'parentcolumnname', 'parentcolumn', 'sourcecolumn', 'sourcecolumnname', 'fromcolumn', 'upstreamcolumn',
+  ],
+};
+
+const SAVED_MAPPINGS_STORAGE_KEY = 'lineageHeaderMappings';
+
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const emptyHeaderMapping = (): HeaderMapping => ({
+  childTableName: -1,
+  childTableType: -1,
+  relationship: -1,
+  parentTableName: -1,
+  parentTableType: -1,
+});
+
+export const isCompleteMapping = (mapping: HeaderMapping, headers: string[]): boolean =>
+  LINEAGE_ROLES.every(role =>
+    (OPTIONAL_ROLES.has(role) && mapping[role] === -1) || (mapping[role] >= 0 && mapping[role] < headers.length)
+  );
+
+/**
+ * Suggest a column for every role from the synonym lists. `exact` is true
+ * when every role found matched its canonical name and only optional roles
+ * are missing, in which case no confirmation is needed.
+ */
+export const suggestHeaderMapping = (headers: string[]): { mapping: HeaderMapping; exact: boolean } => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = emptyHeaderMapping();
+  const used = new Set<number>();
+
+  // Assign in rounds of synonym rank so that a strong match for one role
+  // ("sourcetable") wins over a weak match for another ("type").
+  const longest = Math.max(...LINEAGE_ROLES.map(role => ROLE_SYNONYMS[role].length));
+  for (let rank = 0; rank < longest; rank++) {
+    LINEAGE_ROLES.forEach(role => {
+      if (mapping[role] !== -1) return;
+      const synonym = ROLE_SYNONYMS[role][rank];
+      if (!synonym) return;
+      const index = normalized.findIndex((header, i) => header === synonym && !used.has(i));
+      if (index !== -1) {
+        mapping[role] = index;
+        used.add(index);
+      }
+    });
+  }
+
+  const exact = LINEAGE_ROLES.every(role =>
+    mapping[role] === -1 ? OPTIONAL_ROLES.has(role) : normalized[mapping[role]] === normalizeHeader(role)
+  );
+
+  return { mapping, exact };
+};
+
+/** Identifies a header layout, so a mapping can be reused for the next export. */
+export const headerSignature = (headers: string[]): string =>
+  headers.map(header => header.trim().toLowerCase()).join('␟');
+
+const readSavedMappings = (): Record<string, HeaderMapping> => {
+  try {
+    const saved = localStorage.getItem(SAVED_MAPPINGS_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    console.error('Failed to load saved header mappings', error);
+    return {};
+  }
+};
+
+export const loadSavedMapping = (headers: string[]): HeaderMapping | null => {
+  const saved = readSavedMappings()[headerSignature(headers)];
+  if (!saved) return null;
+  const mapping = { ...emptyHeaderMapping(), ...saved };
+  return isCompleteMapping(mapping, headers) ? mapping : null;
+};
+
+export const saveMapping = (headers: string[], mapping: HeaderMapping) => {
+  try {
+    const saved = readSavedMappings();
+    saved[headerSignature(headers)] = mapping;
+    localStorage.setItem(SAVED_MAPPINGS_STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error('Failed to save header mapping', error);
+  }
+};
+
+/**
+ * Rename mapped columns to their canonical role names, and recognised
+ * optional columns to theirs. Other columns keep their header, suffixed if
+ * it would collide with a canonical name.
+ */
+export const applyHeaderMapping = (headers: string[], mapping: HeaderMapping): string[] => {
+  const roleByIndex = new Map<number, LineageRole>();
+  LINEAGE_ROLES.forEach(role => {
+    if (mapping[role] !== -1) roleByIndex.set(mapping[role], role);
+  });
+  const canonical = new Set(LINEAGE_ROLES.map(normalizeHeader));
+  const optionalNames = new Set<string>();
+
+  return headers.map((header, index) => {
+    const role = roleByIndex.get(index);
+    if (role) return role;
+
+    const normalized = normalizeHeader(header);
+    const optional = Object.keys(OPTIONAL_COLUMN_SYNONYMS).find(name =>
+      !optionalNames.has(name) && OPTIONAL_COLUMN_SYNONYMS[name].includes(normalized)
+    );
+    if (optional) {
+      optionalNames.add(optional);
+      return optional;
+    }
+    return canonical.has(normalized) ? `${header} (unmapped)` : header;
+  });
+};
+
+export const mapDocumentHeaders = (document: CsvDocument, mapping: HeaderMapping): CsvDocument => ({
+  headers: applyHeaderMapping(document.headers, mapping),
+  rows: document.rows,
+});
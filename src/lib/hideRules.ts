@@ -0,0 +1,132 @@
+// Saved rules that hide every table they match. Rules are evaluated against
+// the current graph, so their matches follow the data as it changes.
+
+export type HideRule =
+  | { kind: 'pattern'; syntax: 'glob' | 'regex'; pattern: string }
+  | { kind: 'type'; tableType: string }
+  | { kind: 'leaf' }
+  | { kind: 'degreeOne' }
+  | { kind: 'between'; tableType: string; boundaryType: string };
+
+export interface HideRuleTable {
+  types: string[];
+  parents: string[];
+  children: string[];
+}
+
+/** Match the whole name, `*` standing for any run of characters and `?` for one; case-insensitive. */
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/** Compile a name pattern. Regular expressions, like globs, ignore case. */
+const patternToRegExp = (syntax: 'glob' | 'regex', pattern: string): RegExp =>
+  syntax === 'glob' ? globToRegExp(pattern) : new RegExp(pattern, 'i');
+
+/** Reason a pattern cannot be used, or null if it is valid. */
+export const patternError = (syntax: 'glob' | 'regex', pattern: string): string | null => {
+  if (!pattern) return 'Enter a pattern';
+  try {
+    patternToRegExp(syntax, pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+};
+
+export const describeHideRule = (rule: HideRule): string => {
+  switch (rule.kind) {
+    case 'pattern':
+      return rule.syntax === 'glob' ? `Name matches ${rule.pattern}` : `Name matches /${rule.pattern}/`;
+    case 'type':
+      return `Type is ${rule.tableType}`;
+    case 'leaf':
+      return 'Leaf tables';
+    case 'degreeOne':
+      return 'Tables with one neighbour';
+    case 'between':
+      return `${rule.tableType} tables between ${rule.boundaryType} tables`;
+  }
+};
+
+/** Tables reachable in one direction from any of the starting tables, excluding the starts themselves unless reached again. */
+const reachableFrom = (
+  tables: Map<string, HideRuleTable>,
+  starts: string[],
+  direction: 'parents' | 'children'
+): Set<string> => {
+  const reached = new Set<string>();
+  const queue = starts.flatMap(tableName => tables.get(tableName)?.[direction] || []);
+  for (let head = 0; head < queue.length; head++) {
+    const tableName = queue[head];
+    if (reached.has(tableName)) continue;
+    reached.add(tableName);
+    tables.get(tableName)?.[direction].forEach(next => {
+      if (!reached.has(next)) queue.push(next);
+    });
+  }
+  return reached;
+};
+
+const matchRule = (tables: Map<string, HideRuleTable>, rule: HideRule): string[] => {
+  const tableNames = Array.from(tables.keys());
+  switch (rule.kind) {
+    case 'pattern': {
+      if (patternError(rule.syntax, rule.pattern)) return [];
+      const regExp = patternToRegExp(rule.syntax, rule.pattern);
+      return tableNames.filter(tableName => regExp.test(tableName));
+    }
+    case 'type':
+      return tableNames.filter(tableName => tables.get(tableName)!.types.includes(rule.tableType));
+    case 'leaf':
+      return tableNames.filter(tableName => tables.get(tableName)!.children.length === 0);
+    case 'degreeOne':
+      return tableNames.filter(tableName => {
+        const { parents, children } = tables.get(tableName)!;
+        return new Set([...parents, ...children]).size === 1;
+      });
+    case 'between': {
+      // Built from a boundary table and feeding another one
+      const boundaries = tableNames.filter(tableName => tables.get(tableName)!.types.includes(rule.boundaryType));
+      const downstream = reachableFrom(tables, boundaries, 'children');
+      const upstream = reachableFrom(tables, boundaries, 'parents');
+      return tableNames.filter(tableName =>
+        tables.get(tableName)!.types.includes(rule.tableType) && downstream.has(tableName) && upstream.has(tableName)
+      );
+    }
+  }
+};
+
+/** Every table matched by at least one rule. */
+export const evaluateHideRules = (tables: Map<string, HideRuleTable>, rules: HideRule[]): Set<string> => {
+  const hidden = new Set<string>();
+  rules.forEach(rule => matchRule(tables, rule).forEach(tableName => hidden.add(tableName)));
+  return hidden;
+};
+
+export const hideRuleKey = (rule: HideRule): string => JSON.stringify(rule);
+
+const HIDE_RULES_STORAGE_KEY = 'lineageHideRules';
+
+export const loadHideRules = (): HideRule[] => {
+  try {
+    const saved = localStorage.getItem(HIDE_RULES_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to load hide rules', error);
+    return [];
+  }
+};
+
+export const saveHideRules = (rules: HideRule[]) => {
+  try {
+    localStorage.setItem(HIDE_RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Failed to save hide rules', error);
+  }
+};
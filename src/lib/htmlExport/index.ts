@@ -0,0 +1,84 @@
+// A lineage view as one HTML file that opens offline, from a file:// URL:
+// the drawn graph, its colours and the settings that shaped it are inlined
+// as JSON next to a small read-only viewer with pan, zoom, tooltips and
+// search.
+
+import { ExportGraph, escapeXml, typeColors } from '@/lib/exporters/graph';
+import viewerScript from './viewer.js?raw';
+import viewerStyles from './viewer.css?raw';
+
+export interface LineageSnapshot {
+  title: string;
+  exportedAt: Date;
+  graph: ExportGraph;
+  /** Hidden tables and hide rules, described for display. */
+  hiddenNodes: string[];
+  hideRules: string[];
+  /** Column filters with at least one value selected. */
+  filters: Record<string, string[]>;
+}
+
+// Inline JSON and scripts end at the first `</script`, wherever it appears
+const inlineScript = (text: string): string => text.replace(/<\/(script)/gi, '<\\/$1');
+
+const inlineJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const settingsList = (snapshot: LineageSnapshot): string => {
+  const rows: [string, string][] = [
+    ...Object.entries(snapshot.filters).map(([column, values]): [string, string] => [column, values.join(', ')]),
+    ['Hidden tables', snapshot.hiddenNodes.join(', ')],
+    ['Hide rules', snapshot.hideRules.join('; ')],
+  ];
+  const items = rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<dt>${escapeXml(label)}</dt><dd>${escapeXml(value)}</dd>`);
+  if (items.length === 0) return '';
+  return `<details class="view-settings"><summary>Filters and hidden tables</summary><dl>${items.join('')}</dl></details>`;
+};
+
+export const buildLineageHtml = (snapshot: LineageSnapshot): string => {
+  const tableCount = snapshot.graph.nodes.filter(node => node.type !== 'group').length;
+  const meta = `${tableCount} tables · ${snapshot.graph.edges.length} relationships · exported ${snapshot.exportedAt.toLocaleString()}`;
+  const data = {
+    graph: snapshot.graph,
+    colors: Object.fromEntries(typeColors(snapshot.graph)),
+  };
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(snapshot.title)}</title>
+<style>
+${viewerStyles}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeXml(snapshot.title)}</h1>
+<span class="meta">${escapeXml(meta)}</span>
+<span class="spacer"></span>
+<input id="search" type="search" placeholder="Search tables (Enter for next)" autocomplete="off">
+<span id="matches"></span>
+<button id="zoom-out" type="button" title="Zoom out">−</button>
+<button id="zoom-in" type="button" title="Zoom in">+</button>
+<button id="fit" type="button">Fit</button>
+</header>
+${settingsList(snapshot)}
+<svg id="canvas" xmlns="http://www.w3.org/2000/svg">
+<defs>
+<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#94a3b8"/></marker>
+<marker id="arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#dc2626"/></marker>
+</defs>
+<g id="viewport"></g>
+</svg>
+<div id="tooltip" hidden></div>
+<script type="application/json" id="lineage-data">${inlineJson(data)}</script>
+<script>
+${inlineScript(viewerScript)}
+</script>
+</body>
+</html>
+`;
+};
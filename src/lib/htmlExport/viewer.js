@@ -0,0 +1,349 @@
+// Read-only lineage viewer inlined into exported HTML files. It runs from a
+// file:// URL with no network access, so it is plain browser JavaScript with
+// no imports; the snapshot is read from the #lineage-data script element.
+
+(function () {
+  'use strict';
+
+  var SVG_NS = 'http://www.w3.org/2000/svg';
+  var DEFAULT_WIDTH = 200;
+  var DEFAULT_HEIGHT = 60;
+  var CLUSTER_PADDING = 30;
+  var MIN_SCALE = 0.05;
+  var MAX_SCALE = 4;
+
+  var snapshot = JSON.parse(document.getElementById('lineage-data').textContent);
+  var graph = snapshot.graph;
+  var svg = document.getElementById('canvas');
+  var viewport = document.getElementById('viewport');
+  var tooltip = document.getElementById('tooltip');
+  var searchInput = document.getElementById('search');
+  var matchesLabel = document.getElementById('matches');
+
+  var view = { x: 0, y: 0, scale: 1 };
+  var nodeById = {};
+  var nodeElements = {};
+
+  var element = function (name, attributes, parent) {
+    var created = document.createElementNS(SVG_NS, name);
+    Object.keys(attributes || {}).forEach(function (key) {
+      created.setAttribute(key, attributes[key]);
+    });
+    if (parent) parent.appendChild(created);
+    return created;
+  };
+
+  var boxOf = function (node) {
+    return {
+      x: node.x,
+      y: node.y,
+      width: node.width || DEFAULT_WIDTH,
+      height: node.height || DEFAULT_HEIGHT,
+    };
+  };
+
+  // Shorten text to fit a width, roughly, since SVG text does not wrap
+  var fitText = function (text, width, charWidth) {
+    var maxChars = Math.max(4, Math.floor(width / charWidth));
+    return text.length > maxChars ? text.slice(0, maxChars - 1) + '…' : text;
+  };
+
+  // Tooltip lines are built from text nodes, so names cannot inject markup
+  var showTooltip = function (event, lines) {
+    tooltip.textContent = '';
+    lines.forEach(function (line) {
+      if (!line) return;
+      var row = document.createElement('div');
+      if (line.warning) row.className = 'warning';
+      if (line.label) {
+        var label = document.createElement('span');
+        label.className = 'label';
+        label.textContent = line.label + ': ';
+        row.appendChild(label);
+      }
+      row.appendChild(document.createTextNode(line.text));
+      tooltip.appendChild(row);
+    });
+    tooltip.hidden = false;
+    moveTooltip(event);
+  };
+
+  var moveTooltip = function (event) {
+    var x = Math.min(event.clientX + 14, window.innerWidth - tooltip.offsetWidth - 8);
+    var y = Math.min(event.clientY + 14, window.innerHeight - tooltip.offsetHeight - 8);
+    tooltip.style.left = Math.max(8, x) + 'px';
+    tooltip.style.top = Math.max(8, y) + 'px';
+  };
+
+  var hideTooltip = function () {
+    tooltip.hidden = true;
+  };
+
+  var listLine = function (label, values) {
+    return values && values.length > 0 ? { label: label, text: values.join(', ') } : null;
+  };
+
+  var nodeTooltip = function (node) {
+    if (node.type === 'group') return [{ text: node.label }];
+    return [
+      { label: 'Table Name', text: node.id },
+      node.type ? { label: 'Type', text: node.type } : null,
+      node.namespace ? { label: 'Namespace', text: node.namespace } : null,
+      node.conflictingTypes && node.conflictingTypes.length > 0
+        ? { label: 'Conflicting Types', text: node.conflictingTypes.join(', '), warning: true }
+        : null,
+      listLine('Source Files', node.sourceFiles),
+      listLine('Parent Tables', node.parents),
+      listLine('Child Tables', node.children),
+    ];
+  };
+
+  var edgeTooltip = function (edge) {
+    var from = (edge.parentTableName || edge.source) + (edge.sourceColumn ? '.' + edge.sourceColumn : '');
+    var to = (edge.childTableName || edge.target) + (edge.targetColumn ? '.' + edge.targetColumn : '');
+    return [
+      { label: 'From', text: from },
+      { label: 'To', text: to },
+      { label: 'Relationship', text: edge.relationship },
+      listLine('Source Files', edge.sourceFiles),
+      edge.inCycle ? { text: 'Part of a circular dependency', warning: true } : null,
+      edge.weight > 1 ? { label: 'Edges', text: String(edge.weight) } : null,
+    ];
+  };
+
+  var applyView = function () {
+    viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+  };
+
+  var graphBounds = function () {
+    if (graph.nodes.length === 0) return { x: 0, y: 0, width: 1, height: 1 };
+    var minX = Infinity;
+    var minY = Infinity;
+    var maxX = -Infinity;
+    var maxY = -Infinity;
+    graph.nodes.forEach(function (node) {
+      var box = boxOf(node);
+      minX = Math.min(minX, box.x);
+      minY = Math.min(minY, box.y);
+      maxX = Math.max(maxX, box.x + box.width);
+      maxY = Math.max(maxY, box.y + box.height);
+    });
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  };
+
+  var fitBox = function (box, maxScale) {
+    var rect = svg.getBoundingClientRect();
+    var padding = 40;
+    var scale = Math.min(
+      (rect.width - padding * 2) / Math.max(box.width, 1),
+      (rect.height - padding * 2) / Math.max(box.height, 1),
+      maxScale
+    );
+    view.scale = Math.max(MIN_SCALE, scale);
+    view.x = rect.width / 2 - (box.x + box.width / 2) * view.scale;
+    view.y = rect.height / 2 - (box.y + box.height / 2) * view.scale;
+    applyView();
+  };
+
+  var zoomAt = function (clientX, clientY, factor) {
+    var rect = svg.getBoundingClientRect();
+    var x = clientX - rect.left;
+    var y = clientY - rect.top;
+    var scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * factor));
+    view.x = x - ((x - view.x) * scale) / view.scale;
+    view.y = y - ((y - view.y) * scale) / view.scale;
+    view.scale = scale;
+    applyView();
+  };
+
+  // Drawing: groups behind edges behind nodes, as in the app
+  var clusterLayer = element('g', {}, viewport);
+  var edgeLayer = element('g', {}, viewport);
+  var nodeLayer = element('g', {}, viewport);
+
+  graph.nodes.forEach(function (node) {
+    nodeById[node.id] = node;
+  });
+
+  graph.clusters.forEach(function (cluster) {
+    var members = graph.nodes.filter(function (node) {
+      return node.cluster === cluster.id;
+    });
+    if (members.length === 0) return;
+    var minX = Infinity;
+    var minY = Infinity;
+    var maxX = -Infinity;
+    var maxY = -Infinity;
+    members.forEach(function (node) {
+      var box = boxOf(node);
+      minX = Math.min(minX, box.x);
+      minY = Math.min(minY, box.y);
+      maxX = Math.max(maxX, box.x + box.width);
+      maxY = Math.max(maxY, box.y + box.height);
+    });
+    var group = element('g', { class: 'cluster' }, clusterLayer);
+    element('rect', {
+      x: minX - CLUSTER_PADDING,
+      y: minY - CLUSTER_PADDING,
+      width: maxX - minX + CLUSTER_PADDING * 2,
+      height: maxY - minY + CLUSTER_PADDING * 2,
+      rx: 8,
+    }, group);
+    element('text', { x: minX - CLUSTER_PADDING + 8, y: minY - CLUSTER_PADDING + 16 }, group).textContent = cluster.label;
+  });
+
+  graph.edges.forEach(function (edge) {
+    var source = nodeById[edge.source];
+    var target = nodeById[edge.target];
+    if (!source || !target) return;
+    var from = boxOf(source);
+    var to = boxOf(target);
+    var x1 = from.x + from.width;
+    var y1 = from.y + from.height / 2;
+    var x2 = to.x;
+    var y2 = to.y + to.height / 2;
+    var offset = Math.max(Math.abs(x2 - x1) / 2, 50);
+    var d = 'M' + x1 + ',' + y1 + ' C' + (x1 + offset) + ',' + y1 + ' ' + (x2 - offset) + ',' + y2 + ' ' + x2 + ',' + y2;
+
+    var classes = ['edge'];
+    if (edge.derived) classes.push('derived');
+    if (edge.inCycle) classes.push('cycle');
+    var group = element('g', { class: classes.join(' ') }, edgeLayer);
+    group.dataset.source = edge.source;
+    group.dataset.target = edge.target;
+    element('path', { class: 'line', d: d, 'marker-end': edge.inCycle ? 'url(#arrow-cycle)' : 'url(#arrow)' }, group);
+    element('path', { class: 'hit', d: d }, group);
+
+    if (edge.relationship) {
+      // The midpoint of the curve, which is symmetric about it
+      var label = element('g', { class: 'edge-label' }, group);
+      var text = fitText(edge.relationship + (edge.weight > 1 ? ' ×' + edge.weight : ''), 160, 6.5);
+      var width = text.length * 6.5 + 12;
+      var midX = (x1 + x2) / 2;
+      var midY = (y1 + y2) / 2;
+      element('rect', { x: midX - width / 2, y: midY - 10, width: width, height: 20, rx: 4 }, label);
+      element('text', { x: midX, y: midY + 4, 'text-anchor': 'middle' }, label).textContent = text;
+    }
+
+    group.addEventListener('mouseenter', function (event) {
+      showTooltip(event, edgeTooltip(edge));
+    });
+    group.addEventListener('mousemove', moveTooltip);
+    group.addEventListener('mouseleave', hideTooltip);
+  });
+
+  graph.nodes.forEach(function (node) {
+    var box = boxOf(node);
+    var group = element('g', { class: node.type === 'group' ? 'node group' : 'node' }, nodeLayer);
+    element('rect', {
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      rx: 8,
+      fill: snapshot.colors[node.type] || '#fff',
+    }, group);
+    element('text', { class: 'name', x: box.x + 12, y: box.y + box.height / 2 - 2 }, group).textContent =
+      fitText(node.label, box.width - 24, 7.5);
+    element('text', { class: 'type', x: box.x + 12, y: box.y + box.height / 2 + 14 }, group).textContent =
+      node.type === 'group' ? 'Collapsed group' : node.type;
+
+    group.addEventListener('mouseenter', function (event) {
+      showTooltip(event, nodeTooltip(node));
+    });
+    group.addEventListener('mousemove', moveTooltip);
+    group.addEventListener('mouseleave', hideTooltip);
+    nodeElements[node.id] = group;
+  });
+
+  // Pan by dragging anywhere, zoom with the wheel around the cursor
+  var drag = null;
+  svg.addEventListener('pointerdown', function (event) {
+    drag = { x: event.clientX - view.x, y: event.clientY - view.y };
+    svg.setPointerCapture(event.pointerId);
+    svg.classList.add('panning');
+  });
+  svg.addEventListener('pointermove', function (event) {
+    if (!drag) return;
+    view.x = event.clientX - drag.x;
+    view.y = event.clientY - drag.y;
+    applyView();
+  });
+  var endDrag = function () {
+    drag = null;
+    svg.classList.remove('panning');
+  };
+  svg.addEventListener('pointerup', endDrag);
+  svg.addEventListener('pointercancel', endDrag);
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    zoomAt(event.clientX, event.clientY, Math.exp(-event.deltaY * 0.0015));
+  }, { passive: false });
+
+  var zoomCentered = function (factor) {
+    var rect = svg.getBoundingClientRect();
+    zoomAt(rect.left + rect.width / 2, rect.top + rect.height / 2, factor);
+  };
+  document.getElementById('zoom-in').addEventListener('click', function () {
+    zoomCentered(1.25);
+  });
+  document.getElementById('zoom-out').addEventListener('click', function () {
+    zoomCentered(0.8);
+  });
+  document.getElementById('fit').addEventListener('click', function () {
+    fitBox(graphBounds(), 1);
+  });
+
+  // Search: matches are outlined, everything else dimmed; Enter steps
+  // through the matches and centres each in turn
+  var matches = [];
+  var current = -1;
+
+  var runSearch = function () {
+    var term = searchInput.value.trim().toLowerCase();
+    matches = term
+      ? graph.nodes.filter(function (node) {
+        return node.label.toLowerCase().indexOf(term) !== -1;
+      })
+      : [];
+    current = -1;
+    var matched = {};
+    matches.forEach(function (node) {
+      matched[node.id] = true;
+    });
+    graph.nodes.forEach(function (node) {
+      var group = nodeElements[node.id];
+      group.classList.toggle('match', Boolean(matched[node.id]));
+      group.classList.toggle('current', false);
+      group.classList.toggle('dimmed', Boolean(term) && !matched[node.id]);
+    });
+    Array.prototype.forEach.call(edgeLayer.children, function (group) {
+      group.classList.toggle('dimmed', Boolean(term) && !(matched[group.dataset.source] && matched[group.dataset.target]));
+    });
+    matchesLabel.textContent = term ? matches.length + ' match' + (matches.length === 1 ? '' : 'es') : '';
+  };
+
+  var showNextMatch = function (step) {
+    if (matches.length === 0) return;
+    if (current >= 0) nodeElements[matches[current].id].classList.remove('current');
+    current = (current + step + matches.length) % matches.length;
+    var node = matches[current];
+    nodeElements[node.id].classList.add('current');
+    fitBox(boxOf(node), Math.max(view.scale, 1));
+    matchesLabel.textContent = current + 1 + ' of ' + matches.length;
+  };
+
+  searchInput.addEventListener('input', runSearch);
+  searchInput.addEventListener('keydown', function (event) {
+    if (event.key === 'Enter') showNextMatch(event.shiftKey ? -1 : 1);
+    if (event.key === 'Escape') {
+      searchInput.value = '';
+      runSearch();
+    }
+  });
+
+  window.addEventListener('resize', function () {
+    fitBox(graphBounds(), 1);
+  });
+  fitBox(graphBounds(), 1);
+})();
@@ -0,0 +1,68 @@
+// Blast radius of a table: everything it is built from (upstream) and
+// everything built from it (downstream), with the number of hops to each.
+
+export type ImpactDirection = 'upstream' | 'downstream' | 'both';
+
+export interface ImpactGraphTable {
+  type: string;
+  parents: string[];
+  children: string[];
+}
+
+export interface ImpactedTable {
+  tableName: string;
+  tableType: string;
+  direction: 'upstream' | 'downstream';
+  distance: number;
+}
+
+const walk = (
+  tables: Map<string, ImpactGraphTable>,
+  start: string,
+  direction: 'upstream' | 'downstream',
+  maxDepth: number | null
+): ImpactedTable[] => {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+  const impacted: ImpactedTable[] = [];
+
+  for (let head = 0; head < queue.length; head++) {
+    const tableName = queue[head];
+    const distance = distances.get(tableName)!;
+    if (maxDepth !== null && distance >= maxDepth) continue;
+
+    const table = tables.get(tableName);
+    if (!table) continue;
+    (direction === 'upstream' ? table.parents : table.children).forEach(next => {
+      if (distances.has(next)) return;
+      distances.set(next, distance + 1);
+      queue.push(next);
+      impacted.push({ tableName: next, tableType: tables.get(next)?.type || '', direction, distance: distance + 1 });
+    });
+  }
+
+  return impacted;
+};
+
+/**
+ * Tables reachable from `tableName` within `maxDepth` hops (unlimited when
+ * null), upstream before downstream and nearest first. In a cycle a table
+ * can be both upstream and downstream.
+ */
+export const analyzeImpact = (
+  tables: Map<string, ImpactGraphTable>,
+  tableName: string,
+  direction: ImpactDirection,
+  maxDepth: number | null
+): ImpactedTable[] => {
+  const upstream = direction === 'downstream' ? [] : walk(tables, tableName, 'upstream', maxDepth);
+  const downstream = direction === 'upstream' ? [] : walk(tables, tableName, 'downstream', maxDepth);
+  const byDistance = (a: ImpactedTable, b: ImpactedTable) =>
+    a.distance - b.distance || a.tableName.localeCompare(b.tableName);
+  return [...upstream.sort(byDistance), ...downstream.sort(byDistance)];
+};
+
+export const impactToCsvRecords = (tableName: string, impacted: ImpactedTable[]): string[][] => [
+  ['changedTable', 'tableName', 'tableType', 'direction', 'distance'],
+  ...impacted.map(table => [tableName, table.tableName, table.tableType, table.direction, String(table.distance)]),
+];
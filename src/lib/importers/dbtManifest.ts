@@ -0,0 +1,94 @@
+// dbt manifest.json → lineage rows.
+//
+// Models, sources, seeds and snapshots become tables whose type is their dbt
+// resource type; each entry of a node's depends_on.nodes becomes an edge from
+// the dependency (parent) to the node (child). Resources without any edge
+// get a row of their own, with no parent, so they still appear.
+
+import { ParsedCsv } from '@/lib/csv';
+import { LINEAGE_ROLES } from '@/lib/headerMapping';
+
+interface DbtNode {
+  unique_id?: string;
+  resource_type?: string;
+  name?: string;
+  source_name?: string;
+  depends_on?: { nodes?: string[] };
+}
+
+interface DbtManifest {
+  metadata?: { dbt_schema_version?: string };
+  nodes?: Record<string, DbtNode>;
+  sources?: Record<string, DbtNode>;
+}
+
+const LINEAGE_RESOURCE_TYPES = new Set(['model', 'source', 'seed', 'snapshot']);
+
+export const isDbtManifest = (json: unknown): json is DbtManifest => {
+  if (typeof json !== 'object' || json === null) return false;
+  const manifest = json as DbtManifest;
+  return (
+    typeof manifest.metadata?.dbt_schema_version === 'string' ||
+    (typeof manifest.nodes === 'object' && typeof manifest.sources === 'object')
+  );
+};
+
+const resourceTypeOf = (uniqueId: string, node?: DbtNode): string =>
+  node?.resource_type || uniqueId.split('.')[0];
+
+const tableNameOf = (uniqueId: string, node?: DbtNode): string => {
+  if (!node?.name) return uniqueId;
+  return resourceTypeOf(uniqueId, node) === 'source' && node.source_name
+    ? `${node.source_name}.${node.name}`
+    : node.name;
+};
+
+export const importDbtManifest = (manifest: DbtManifest): ParsedCsv => {
+  const nodes: Record<string, DbtNode> = { ...manifest.nodes, ...manifest.sources };
+  const rows: string[][] = [];
+  const errors: ParsedCsv['errors'] = [];
+  const missing = new Set<string>();
+  const unsupported = new Set<string>();
+  const linked = new Set<string>();
+
+  Object.entries(nodes).forEach(([uniqueId, node]) => {
+    const childType = resourceTypeOf(uniqueId, node);
+    if (!LINEAGE_RESOURCE_TYPES.has(childType)) return;
+
+    (node.depends_on?.nodes || []).forEach(parentId => {
+      const parent = nodes[parentId];
+      const parentType = resourceTypeOf(parentId, parent);
+      if (!LINEAGE_RESOURCE_TYPES.has(parentType)) {
+        if (!unsupported.has(parentId)) {
+          unsupported.add(parentId);
+          errors.push({ line: 0, message: `${uniqueId} depends on ${parentId}; ${parentType} resources are not imported` });
+        }
+        return;
+      }
+
+      if (!parent && !missing.has(parentId)) {
+        missing.add(parentId);
+        errors.push({ line: 0, message: `${uniqueId} depends on ${parentId}, which is not in the manifest` });
+      }
+
+      rows.push([
+        tableNameOf(uniqueId, node),
+        childType,
+        parentType === 'source' ? 'source' : 'ref',
+        tableNameOf(parentId, parent),
+        parentType,
+      ]);
+      linked.add(uniqueId);
+      linked.add(parentId);
+    });
+  });
+
+  Object.entries(nodes).forEach(([uniqueId, node]) => {
+    const type = resourceTypeOf(uniqueId, node);
+    if (LINEAGE_RESOURCE_TYPES.has(type) && !linked.has(uniqueId)) {
+      rows.push([tableNameOf(uniqueId, node), type, '', '', '']);
+    }
+  });
+
+  return { headers: [...LINEAGE_ROLES], rows, errors };
+};
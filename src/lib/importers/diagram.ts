@@ -0,0 +1,48 @@
+// Shared by the diagram importers (DOT and Mermaid): nodes and directed
+// edges → lineage rows. An edge points from parent to child, the way data
+// flows in a diagram. A node without edges gets a row with no parent, so it
+// still appears as a table on its own.
+
+import { LINEAGE_ROLES } from '@/lib/headerMapping';
+import { ParsedCsv } from '@/lib/csv';
+
+export interface DiagramNode {
+  /** Shown name, which becomes the table name; the node id when absent. */
+  label?: string;
+  type: string;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  relationship: string;
+}
+
+/** One row per distinct edge, then one per node without edges. */
+export const diagramToCsv = (
+  nodes: Map<string, DiagramNode>,
+  edges: DiagramEdge[],
+  errors: ParsedCsv['errors']
+): ParsedCsv => {
+  const nameOf = (id: string) => nodes.get(id)?.label || id;
+  const typeOf = (id: string) => nodes.get(id)?.type || '';
+  const rows: string[][] = [];
+  const seen = new Set<string>();
+  const linked = new Set<string>();
+
+  edges.forEach(({ from, to, relationship }) => {
+    linked.add(from);
+    linked.add(to);
+    const row = [nameOf(to), typeOf(to), relationship, nameOf(from), typeOf(from)];
+    const key = JSON.stringify(row);
+    if (seen.has(key)) return;
+    seen.add(key);
+    rows.push(row);
+  });
+
+  nodes.forEach((_, id) => {
+    if (!linked.has(id)) rows.push([nameOf(id), typeOf(id), '', '', '']);
+  });
+
+  return { headers: [...LINEAGE_ROLES], rows, errors };
+};
@@ -0,0 +1,271 @@
+// Graphviz DOT → lineage rows.
+//
+// Every edge becomes a row from its tail (parent) to its head (child), with
+// the edge's `relationship` or `label` attribute as the relationship. A
+// node's `label` names the table, and its `tabletype`, `class` or `shape`
+// attribute gives the table type. Node and edge defaults follow Graphviz:
+// they apply to what is created after them, within the enclosing subgraph.
+
+import { ParsedCsv } from '@/lib/csv';
+import { DiagramEdge, DiagramNode, diagramToCsv } from './diagram';
+
+interface DotToken {
+  type: 'id' | 'punct';
+  value: string;
+  line: number;
+}
+
+type Attributes = Record<string, string>;
+
+interface Scope {
+  node: Attributes;
+  edge: Attributes;
+}
+
+const PUNCTUATION = ['->', '--', '{', '}', '[', ']', ';', ',', '=', ':'];
+
+const tokenizeDot = (text: string): DotToken[] => {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let index = 0;
+  let lineStart = true;
+
+  const fail = (message: string): never => {
+    throw new Error(`Line ${line}: ${message}`);
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '\n') {
+      line++;
+      index++;
+      lineStart = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    // Preprocessor-style lines are ignored by Graphviz too
+    if (char === '#' && lineStart) {
+      while (index < text.length && text[index] !== '\n') index++;
+      continue;
+    }
+    lineStart = false;
+    if (text.startsWith('//', index)) {
+      while (index < text.length && text[index] !== '\n') index++;
+      continue;
+    }
+    if (text.startsWith('/*', index)) {
+      const end = text.indexOf('*/', index + 2);
+      if (end === -1) fail('unterminated comment');
+      line += (text.slice(index, end).match(/\n/g) || []).length;
+      index = end + 2;
+      continue;
+    }
+
+    const tokenLine = line;
+    if (char === '"') {
+      let value = '';
+      index++;
+      while (index < text.length && text[index] !== '"') {
+        if (text[index] === '\\' && text[index + 1] === '"') {
+          value += '"';
+          index += 2;
+        } else if (text[index] === '\\' && text[index + 1] === '\n') {
+          line++;
+          index += 2;
+        } else {
+          if (text[index] === '\n') line++;
+          value += text[index++];
+        }
+      }
+      if (index >= text.length) fail('unterminated string');
+      index++;
+      // "a" + "b" concatenates
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type === 'punct' && previous.value === '+') {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ type: 'id', value, line: tokenLine });
+      }
+      continue;
+    }
+    if (char === '<') {
+      // HTML-like label: keep its text, drop the markup
+      let depth = 0;
+      const start = index;
+      do {
+        if (text[index] === '<') depth++;
+        else if (text[index] === '>') depth--;
+        else if (text[index] === '\n') line++;
+        index++;
+      } while (index < text.length && depth > 0);
+      if (depth > 0) fail('unterminated HTML string');
+      const html = text.slice(start + 1, index - 1);
+      tokens.push({ type: 'id', value: html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim(), line: tokenLine });
+      continue;
+    }
+    const punctuation = PUNCTUATION.find(value => text.startsWith(value, index));
+    if (punctuation) {
+      tokens.push({ type: 'punct', value: punctuation, line: tokenLine });
+      index += punctuation.length;
+      continue;
+    }
+    if (char === '+') {
+      tokens.push({ type: 'punct', value: '+', line: tokenLine });
+      index++;
+      continue;
+    }
+    const word = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.slice(index, index + 1000));
+    if (!word) fail(`unexpected character "${char}"`);
+    tokens.push({ type: 'id', value: word![0], line: tokenLine });
+    index += word![0].length;
+  }
+  return tokens;
+};
+
+const isKeyword = (token: DotToken | undefined, keyword: string) =>
+  token?.type === 'id' && token.value.toLowerCase() === keyword;
+
+/** Lineage rows for a DOT graph; syntax errors are thrown with their line. */
+export const importDot = (text: string): ParsedCsv => {
+  const tokens = tokenizeDot(text);
+  const nodes = new Map<string, DiagramNode & { attributes: Attributes }>();
+  const edges: DiagramEdge[] = [];
+  let position = 0;
+
+  const peek = (offset = 0) => tokens[position + offset];
+  const isPunct = (value: string, offset = 0) => peek(offset)?.type === 'punct' && peek(offset).value === value;
+  const fail = (message: string): never => {
+    const token = peek() || tokens[tokens.length - 1];
+    throw new Error(`Line ${token ? token.line : 1}: ${message}`);
+  };
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) fail(`expected "${value}"`);
+    position++;
+  };
+  const readId = (): string => {
+    const token = peek();
+    if (token?.type !== 'id') fail('expected a name');
+    position++;
+    return token.value;
+  };
+
+  const readAttributes = (): Attributes => {
+    const attributes: Attributes = {};
+    while (isPunct('[')) {
+      position++;
+      while (!isPunct(']')) {
+        const name = readId().toLowerCase();
+        let value = 'true';
+        if (isPunct('=')) {
+          position++;
+          value = readId();
+        }
+        attributes[name] = value;
+        if (isPunct(',') || isPunct(';')) position++;
+      }
+      position++;
+    }
+    return attributes;
+  };
+
+  const nodeTypeOf = (attributes: Attributes) => attributes.tabletype || attributes.class || attributes.shape || '';
+  const nodeLabelOf = (id: string, attributes: Attributes) =>
+    attributes.label && attributes.label !== '\\N' ? attributes.label : id;
+
+  const touchNode = (id: string, scope: Scope, attributes: Attributes = {}) => {
+    const existing = nodes.get(id);
+    const merged = { ...(existing ? existing.attributes : scope.node), ...attributes };
+    nodes.set(id, { attributes: merged, label: nodeLabelOf(id, merged), type: nodeTypeOf(merged) });
+  };
+
+  // A node id, ignoring any :port or :port:compass suffix
+  const readNodeId = () => {
+    const id = readId();
+    while (isPunct(':')) {
+      position++;
+      readId();
+    }
+    return id;
+  };
+
+  const isEdgeOp = () => isPunct('->') || isPunct('--');
+
+  // A node or a subgraph, as the ids of the nodes it stands for
+  const readOperand = (scope: Scope): string[] => {
+    if (isPunct('{') || isKeyword(peek(), 'subgraph')) return readSubgraph(scope);
+    const id = readNodeId();
+    touchNode(id, scope);
+    return [id];
+  };
+
+  const readSubgraph = (scope: Scope): string[] => {
+    if (isKeyword(peek(), 'subgraph')) {
+      position++;
+      if (peek()?.type === 'id') position++;
+    }
+    expectPunct('{');
+    const members = readStatements({ node: { ...scope.node }, edge: { ...scope.edge } });
+    expectPunct('}');
+    return members;
+  };
+
+  // Statements up to the closing brace; returns every node mentioned
+  const readStatements = (scope: Scope): string[] => {
+    const mentioned = new Set<string>();
+    while (peek() && !isPunct('}')) {
+      if (isPunct(';') || isPunct(',')) {
+        position++;
+        continue;
+      }
+
+      const token = peek();
+      if (['graph', 'node', 'edge'].some(keyword => isKeyword(token, keyword)) && isPunct('[', 1)) {
+        position++;
+        const attributes = readAttributes();
+        if (isKeyword(token, 'node')) Object.assign(scope.node, attributes);
+        else if (isKeyword(token, 'edge')) Object.assign(scope.edge, attributes);
+        continue;
+      }
+      if (token.type === 'id' && isPunct('=', 1)) {
+        // Graph attribute, e.g. rankdir=LR
+        position += 2;
+        readId();
+        continue;
+      }
+
+      const startsWithSubgraph = isPunct('{') || isKeyword(token, 'subgraph');
+      const operands = [readOperand(scope)];
+      while (isEdgeOp()) {
+        position++;
+        operands.push(readOperand(scope));
+      }
+      operands.flat().forEach(id => mentioned.add(id));
+
+      if (operands.length === 1) {
+        if (!startsWithSubgraph) touchNode(operands[0][0], scope, readAttributes());
+        continue;
+      }
+      const attributes = { ...scope.edge, ...readAttributes() };
+      const relationship = attributes.relationship || attributes.label || '';
+      for (let i = 1; i < operands.length; i++) {
+        operands[i - 1].forEach(from => operands[i].forEach(to => edges.push({ from, to, relationship })));
+      }
+    }
+    return Array.from(mentioned);
+  };
+
+  if (isKeyword(peek(), 'strict')) position++;
+  if (!isKeyword(peek(), 'digraph') && !isKeyword(peek(), 'graph')) fail('expected "digraph" or "graph"');
+  position++;
+  if (peek()?.type === 'id') position++;
+  expectPunct('{');
+  readStatements({ node: {}, edge: {} });
+  expectPunct('}');
+  if (peek()) fail('unexpected text after the graph');
+
+  return diagramToCsv(nodes, edges, []);
+};
@@ -0,0 +1,126 @@
+// Entry point for every non-CSV lineage source. Each importer produces the
+// same header/row structure as a parsed CSV, so the result goes through the
+// same mapping, validation and graph pipeline.
+
+import { ParsedCsv } from '@/lib/csv';
+import { importDbtManifest, isDbtManifest } from './dbtManifest';
+import { importDot } from './dot';
+import { hasMermaidFlowchart, importMermaid } from './mermaid';
+import { importOpenLineageEvents, importOpenLineageNdjson, isOpenLineageEvent } from './openLineage';
+import { importSqlScripts } from './sqlLineage';
+import { importWorkbookSheets, listWorkbookSheets } from './workbook';
+
+export interface ImportOptions {
+  /** Sheets to read from an Excel workbook; the first sheet if not given. */
+  sheetNames?: string[];
+}
+
+/** Extensions accepted by the upload area, CSV first. */
+export const SUPPORTED_EXTENSIONS = [
+  '.csv', '.xlsx', '.json', '.ndjson', '.jsonl', '.sql', '.dot', '.gv', '.mmd', '.mermaid',
+];
+
+/**
+ * Extensions accepted only when the files are picked themselves: most
+ * Markdown is documentation, so it is skipped when walking a dropped folder.
+ */
+export const EXPLICIT_ONLY_EXTENSIONS = ['.md'];
+
+export const isSupportedFile = (file: File, pickedDirectly = true): boolean => {
+  const name = file.name.toLowerCase();
+  const extensions = pickedDirectly ? [...SUPPORTED_EXTENSIONS, ...EXPLICIT_ONLY_EXTENSIONS] : SUPPORTED_EXTENSIONS;
+  return file.type === 'text/csv' || extensions.some(extension => name.endsWith(extension));
+};
+
+export const isCsvFile = (file: File): boolean =>
+  file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+
+export const isSqlFile = (file: File): boolean => file.name.toLowerCase().endsWith('.sql');
+
+export const isWorkbookFile = (file: File): boolean => file.name.toLowerCase().endsWith('.xlsx');
+
+const isOpenLineageLine = (line: string): boolean => {
+  try {
+    return isOpenLineageEvent(JSON.parse(line));
+  } catch {
+    return false;
+  }
+};
+
+const importJson = (fileName: string, text: string): ParsedCsv => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    // Archived OpenLineage events are often NDJSON saved with a .json extension
+    const firstLine = text.trimStart().split('\n', 1)[0];
+    if (isOpenLineageLine(firstLine)) return importOpenLineageNdjson(text);
+    throw new Error(`${fileName} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (isDbtManifest(json)) return importDbtManifest(json);
+  if (isOpenLineageEvent(json)) return importOpenLineageEvents([json]);
+  if (Array.isArray(json) && json.some(isOpenLineageEvent)) return importOpenLineageEvents(json);
+  throw new Error(
+    `${fileName} is not a recognised lineage format (expected a dbt manifest.json or OpenLineage events)`
+  );
+};
+
+/**
+ * Split a selection into the units that are imported together: all SQL
+ * scripts form one unit, every other file is its own.
+ */
+export const groupLineageFiles = (files: File[]): File[][] => {
+  const sqlFiles = files.filter(isSqlFile);
+  const groups = files.filter(file => !isSqlFile(file)).map(file => [file]);
+  return sqlFiles.length > 0 ? [...groups, sqlFiles] : groups;
+};
+
+/** Name a unit of files is known by, e.g. in the source file facet. */
+export const lineageSourceName = (files: File[], pathOf: (file: File) => string = file => file.name): string =>
+  files.length === 1 ? pathOf(files[0]) : `${files.length} SQL scripts`;
+
+// Files found in dropped folders get no webkitRelativePath, so their path
+// within the drop is recorded here
+const droppedFilePaths = new WeakMap<File, string>();
+
+export const setDroppedFilePath = (file: File, path: string) => {
+  droppedFilePaths.set(file, path);
+};
+
+/** Path of a file within the folder it came from, or its name if it was picked alone. */
+export const lineageFilePath = (file: File): string =>
+  droppedFilePaths.get(file) || file.webkitRelativePath || file.name;
+
+/**
+ * Import lineage files that are not a CSV. SQL scripts are read together,
+ * since lineage usually spans a whole folder of them; other formats are
+ * imported one file at a time.
+ */
+export const importLineageFiles = async (files: File[], options: ImportOptions = {}): Promise<ParsedCsv> => {
+  if (files.length > 0 && files.every(isSqlFile)) {
+    const scripts = await Promise.all(files.map(async file => ({ fileName: file.name, text: await file.text() })));
+    return importSqlScripts(scripts);
+  }
+  if (files.length !== 1) throw new Error('Only SQL scripts can be imported several at a time');
+
+  const [file] = files;
+  const name = file.name.toLowerCase();
+
+  if (isWorkbookFile(file)) {
+    const data = await file.arrayBuffer();
+    return importWorkbookSheets(data, options.sheetNames || listWorkbookSheets(data).slice(0, 1));
+  }
+
+  const text = await file.text();
+
+  if (name.endsWith('.json')) return importJson(file.name, text);
+  if (name.endsWith('.ndjson') || name.endsWith('.jsonl')) return importOpenLineageNdjson(text);
+  if (name.endsWith('.dot') || name.endsWith('.gv')) return importDot(text);
+  if (name.endsWith('.mmd') || name.endsWith('.mermaid')) return importMermaid(text);
+  // Markdown without a diagram is an empty source rather than a failed load
+  if (name.endsWith('.md')) {
+    return hasMermaidFlowchart(text, true) ? importMermaid(text, true) : { headers: [], rows: [], errors: [] };
+  }
+  throw new Error(`Unsupported file type: ${file.name}`);
+};
@@ -0,0 +1,212 @@
+// Mermaid flowcharts (`flowchart` or `graph`) → lineage rows.
+//
+// Every link becomes a row from its left (parent) to its right (child) node,
+// with the link text as the relationship. A node's text names the table, and
+// its first class, or else its shape, gives the table type. Markdown files
+// are searched for ```mermaid blocks, so diagrams can be read from READMEs.
+
+import { CsvParseError, ParsedCsv } from '@/lib/csv';
+import { DiagramEdge, DiagramNode, diagramToCsv } from './diagram';
+
+// Openers in the order they must be tried, longest first
+const SHAPES: { open: string; close: string[]; shape: string }[] = [
+  { open: '(((', close: [')))'], shape: 'double-circle' },
+  { open: '([', close: ['])'], shape: 'stadium' },
+  { open: '[[', close: [']]'], shape: 'subroutine' },
+  { open: '[(', close: [')]'], shape: 'cylinder' },
+  { open: '((', close: ['))'], shape: 'circle' },
+  { open: '{{', close: ['}}'], shape: 'hexagon' },
+  { open: '[/', close: ['/]', '\\]'], shape: 'parallelogram' },
+  { open: '[\\', close: ['\\]', '/]'], shape: 'parallelogram-alt' },
+  { open: '[', close: [']'], shape: 'rect' },
+  { open: '(', close: [')'], shape: 'round' },
+  { open: '{', close: ['}'], shape: 'rhombus' },
+  { open: '>', close: [']'], shape: 'asymmetric' },
+];
+
+const NODE_ID = /[\p{L}\p{N}_$]+(?:\.[\p{L}\p{N}_$]+)*/uy;
+const ARROW = /\s*<?(?:-{2,}>|={2,}>|-\.+->|-{3,}|={3,}|-\.+-|-{2,}[ox](?=[\s|])|={2,}[ox](?=[\s|]))\s*(?:\|([^|]*)\|\s*)?/y;
+const TEXT_ARROW = /\s*(?:--|==|-\.)\s+(.+?)\s+(?:-{2,}>|={2,}>|\.+->|-{3,}|={3,}|\.+-)\s*/y;
+const CLASS_SUFFIX = /:::([\w-]+)/y;
+
+// Statements that draw nothing lineage needs
+const IGNORED_KEYWORDS = ['classdef', 'style', 'linkstyle', 'click', 'subgraph', 'end', 'direction', 'acctitle', 'accdescr'];
+
+/** Undo Mermaid's entity escapes, e.g. #quot; and #35;. */
+const decodeText = (text: string): string =>
+  text
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/<br\s*\/?>/gi, ' ')
+    .trim();
+
+interface MermaidDiagram {
+  text: string;
+  /** Line of the file the diagram starts on. */
+  line: number;
+}
+
+/**
+ * Mermaid blocks of a Markdown file. Outside Markdown, the whole text is the
+ * diagram when it has no blocks.
+ */
+const findDiagrams = (text: string, markdown: boolean): MermaidDiagram[] => {
+  const diagrams: MermaidDiagram[] = [];
+  const fence = /^(```|~~~)\s*mermaid\s*$([\s\S]*?)^\1\s*$/gm;
+  for (let match = fence.exec(text); match; match = fence.exec(text)) {
+    const line = text.slice(0, match.index).split('\n').length + 1;
+    diagrams.push({ text: match[2].replace(/^\r?\n/, ''), line });
+  }
+  return diagrams.length > 0 || markdown ? diagrams : [{ text, line: 1 }];
+};
+
+/** Index of the line closing the YAML front matter between --- lines, or -1. */
+const frontMatterEnd = (lines: string[]): number =>
+  lines[0]?.trim() === '---' ? lines.findIndex((line, offset) => offset > 0 && line.trim() === '---') : -1;
+
+// The first statement, after front matter and %% comments, declares the diagram type
+const isFlowchart = (text: string): boolean => {
+  const lines = text.split('\n');
+  const header = lines
+    .slice(frontMatterEnd(lines) + 1)
+    .map(line => line.trim())
+    .find(line => line && !line.startsWith('%%'));
+  return header !== undefined && /^(?:flowchart|graph)\b/.test(header);
+};
+
+/** Whether the text, or for Markdown one of its ```mermaid blocks, is a flowchart. */
+export const hasMermaidFlowchart = (text: string, markdown = false): boolean =>
+  findDiagrams(text, markdown).some(diagram => isFlowchart(diagram.text));
+
+/**
+ * Lineage rows for Mermaid flowcharts; statements that cannot be read are
+ * reported. Markdown is only read inside its ```mermaid blocks.
+ */
+export const importMermaid = (text: string, markdown = false): ParsedCsv => {
+  const diagrams = findDiagrams(text, markdown).filter(diagram => isFlowchart(diagram.text));
+  if (diagrams.length === 0) throw new Error('No Mermaid flowchart found (expected "flowchart" or "graph")');
+
+  const nodes = new Map<string, DiagramNode & { shape?: string; classes: string[] }>();
+  const edges: DiagramEdge[] = [];
+  const errors: CsvParseError[] = [];
+
+  const nodeOf = (id: string) => {
+    if (!nodes.has(id)) nodes.set(id, { type: '', classes: [] });
+    return nodes.get(id)!;
+  };
+  const updateType = (id: string) => {
+    const node = nodeOf(id);
+    node.type = node.classes[0] || node.shape || '';
+  };
+
+  // Reads `statement` from `index`, returning the new index or -1 on failure
+  const readNode = (statement: string, index: number, ids: string[]): number => {
+    NODE_ID.lastIndex = index;
+    const idMatch = NODE_ID.exec(statement);
+    if (!idMatch) return -1;
+    const id = idMatch[0];
+    index = NODE_ID.lastIndex;
+    nodeOf(id);
+
+    const shape = SHAPES.find(({ open }) => statement.startsWith(open, index));
+    if (shape) {
+      index += shape.open.length;
+      let label: string;
+      if (statement[index] === '"') {
+        const end = statement.indexOf('"', index + 1);
+        if (end === -1) return -1;
+        label = statement.slice(index + 1, end);
+        index = end + 1;
+      } else {
+        const ends = shape.close.map(close => statement.indexOf(close, index)).filter(end => end !== -1);
+        if (ends.length === 0) return -1;
+        const end = Math.min(...ends);
+        label = statement.slice(index, end);
+        index = end;
+      }
+      const close = shape.close.find(close => statement.startsWith(close, index));
+      if (!close) return -1;
+      index += close.length;
+      const node = nodeOf(id);
+      node.label = decodeText(label) || node.label;
+      node.shape = shape.shape;
+    }
+
+    CLASS_SUFFIX.lastIndex = index;
+    const classMatch = CLASS_SUFFIX.exec(statement);
+    if (classMatch) {
+      nodeOf(id).classes.push(classMatch[1]);
+      index = CLASS_SUFFIX.lastIndex;
+    }
+    updateType(id);
+    ids.push(id);
+    return index;
+  };
+
+  // Nodes joined with &, e.g. `a & b`
+  const readNodeGroup = (statement: string, index: number, ids: string[]): number => {
+    index = readNode(statement, index, ids);
+    while (index !== -1) {
+      const ampersand = /\s*&\s*/y;
+      ampersand.lastIndex = index;
+      if (!ampersand.exec(statement)) break;
+      index = readNode(statement, ampersand.lastIndex, ids);
+    }
+    return index;
+  };
+
+  const readLink = (statement: string, index: number): { index: number; text: string } | null => {
+    for (const pattern of [ARROW, TEXT_ARROW]) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(statement);
+      if (match) return { index: pattern.lastIndex, text: decodeText(match[1] || '').replace(/^"(.*)"$/, '$1') };
+    }
+    return null;
+  };
+
+  const readStatement = (statement: string): boolean => {
+    const keyword = statement.split(/\s+/, 1)[0].toLowerCase();
+    if (keyword === 'flowchart' || keyword === 'graph' || IGNORED_KEYWORDS.includes(keyword)) return true;
+    if (keyword === 'class') {
+      const [, ids, className] = statement.split(/\s+/);
+      if (!ids || !className) return false;
+      ids.split(',').forEach(id => {
+        nodeOf(id).classes.push(className);
+        updateType(id);
+      });
+      return true;
+    }
+
+    // A chain of node groups, e.g. `a & b --> c -->|text| d`
+    let previous: string[] = [];
+    let index = readNodeGroup(statement, 0, previous);
+    while (index !== -1 && index < statement.length) {
+      const link = readLink(statement, index);
+      if (!link) return false;
+      const next: string[] = [];
+      index = readNodeGroup(statement, link.index, next);
+      if (index === -1) return false;
+      previous.forEach(from => next.forEach(to => edges.push({ from, to, relationship: link.text })));
+      previous = next;
+    }
+    return index === statement.length;
+  };
+
+  diagrams.forEach(diagram => {
+    const lines = diagram.text.split('\n');
+    // YAML front matter between --- lines configures the diagram
+    const firstStatement = frontMatterEnd(lines) + 1;
+    lines.forEach((line, offset) => {
+      if (offset < firstStatement) return;
+      const text = line.replace(/%%.*$/, '');
+      // Statements may share a line, separated by semicolons outside quotes
+      text.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(part => part.trim()).filter(Boolean).forEach(statement => {
+        if (!readStatement(statement)) {
+          errors.push({ line: diagram.line + offset, message: `Could not read "${statement}"` });
+        }
+      });
+    });
+  });
+
+  return diagramToCsv(nodes, edges, errors);
+};
@@ -0,0 +1,129 @@
+// OpenLineage run events → lineage rows.
+//
+// Datasets and jobs both become tables (typed "dataset" and "job"). Every
+// input of a run adds an input → job edge and every output a job → output
+// edge; repeated runs of the same job collapse onto the same edges. The
+// namespaces are kept in childNamespace/parentNamespace columns. A job is
+// often named after the dataset it writes, so a job whose name is also a
+// dataset's is shown as e.g. "orders (job)" to keep the two apart.
+
+import { CsvParseError, ParsedCsv } from '@/lib/csv';
+import { LINEAGE_ROLES } from '@/lib/headerMapping';
+
+interface OpenLineageDataset {
+  namespace?: string;
+  name?: string;
+}
+
+interface OpenLineageEvent {
+  eventType?: string;
+  job?: { namespace?: string; name?: string };
+  inputs?: OpenLineageDataset[];
+  outputs?: OpenLineageDataset[];
+}
+
+interface LineageObject {
+  kind: 'dataset' | 'job';
+  namespace: string;
+  name: string;
+}
+
+export const OPEN_LINEAGE_HEADERS = [...LINEAGE_ROLES, 'childNamespace', 'parentNamespace'];
+
+export const isOpenLineageEvent = (json: unknown): json is OpenLineageEvent => {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) return false;
+  const event = json as OpenLineageEvent;
+  return typeof event.job === 'object' && (Array.isArray(event.inputs) || Array.isArray(event.outputs));
+};
+
+const objectKey = ({ kind, namespace, name }: LineageObject) => `${kind}\u0000${namespace}\u0000${name}`;
+
+/** Builds lineage rows from events; `lines` gives each event's source line for error reporting. */
+export const importOpenLineageEvents = (events: unknown[], lines: number[] = []): ParsedCsv => {
+  const errors: CsvParseError[] = [];
+  const edges = new Map<string, { parent: LineageObject; child: LineageObject; relationship: string }>();
+
+  const addEdge = (parent: LineageObject, child: LineageObject, relationship: string) => {
+    const key = `${objectKey(parent)}\u0001${objectKey(child)}`;
+    if (!edges.has(key)) edges.set(key, { parent, child, relationship });
+  };
+
+  events.forEach((event, index) => {
+    const line = lines[index] || 0;
+    if (!isOpenLineageEvent(event)) {
+      errors.push({ line, message: 'Not an OpenLineage run or job event' });
+      return;
+    }
+    if (!event.job?.name) {
+      errors.push({ line, message: 'Event has no job name' });
+      return;
+    }
+
+    const job: LineageObject = { kind: 'job', namespace: event.job.namespace || '', name: event.job.name };
+    const toDataset = ({ namespace, name }: OpenLineageDataset): LineageObject | null => {
+      if (!name) {
+        errors.push({ line, message: `Dataset without a name in job ${job.name}` });
+        return null;
+      }
+      return { kind: 'dataset', namespace: namespace || '', name };
+    };
+
+    (event.inputs || []).map(toDataset).forEach(dataset => dataset && addEdge(dataset, job, 'input'));
+    (event.outputs || []).map(toDataset).forEach(dataset => dataset && addEdge(job, dataset, 'output'));
+  });
+
+  // Names are shown on their own unless the same name occurs in more than
+  // one namespace, in which case those objects are qualified with it.
+  const namespacesByName = new Map<string, Set<string>>();
+  edges.forEach(({ parent, child }) => {
+    [parent, child].forEach(({ kind, namespace, name }) => {
+      const key = `${kind}\u0000${name}`;
+      if (!namespacesByName.has(key)) namespacesByName.set(key, new Set());
+      namespacesByName.get(key)!.add(namespace);
+    });
+  });
+  const qualifiedName = ({ kind, namespace, name }: LineageObject) =>
+    namespacesByName.get(`${kind}\u0000${name}`)!.size > 1 && namespace ? `${namespace}:${name}` : name;
+
+  // Names shared across kinds would merge a job and a dataset into one table
+  const datasetNames = new Set<string>();
+  edges.forEach(({ parent, child }) => {
+    [parent, child].forEach(object => object.kind === 'dataset' && datasetNames.add(qualifiedName(object)));
+  });
+  const displayName = (object: LineageObject) => {
+    const name = qualifiedName(object);
+    return object.kind === 'job' && datasetNames.has(name) ? `${name} (job)` : name;
+  };
+
+  const rows = Array.from(edges.values()).map(({ parent, child, relationship }) => [
+    displayName(child),
+    child.kind,
+    relationship,
+    displayName(parent),
+    parent.kind,
+    child.namespace,
+    parent.namespace,
+  ]);
+
+  return { headers: OPEN_LINEAGE_HEADERS, rows, errors };
+};
+
+/** Parse newline-delimited JSON events, reporting malformed lines instead of failing. */
+export const importOpenLineageNdjson = (text: string): ParsedCsv => {
+  const events: unknown[] = [];
+  const lines: number[] = [];
+  const parseErrors: CsvParseError[] = [];
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (!content.trim()) return;
+    try {
+      events.push(JSON.parse(content));
+      lines.push(index + 1);
+    } catch (error) {
+      parseErrors.push({ line: index + 1, message: `Invalid JSON: ${error instanceof Error ? error.message : error}` });
+    }
+  });
+
+  const imported = importOpenLineageEvents(events, lines);
+  return { ...imported, errors: [...parseErrors, ...imported.errors] };
+};
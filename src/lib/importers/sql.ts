@@ -0,0 +1,171 @@
+// Minimal SQL tokenizer shared by the SQL importers. It understands enough of
+// the common dialects (ANSI, Postgres, Snowflake, BigQuery, T-SQL, MySQL) to
+// split scripts into statements and walk their identifiers; it is not a
+// validating parser.
+
+export type SqlTokenType = 'word' | 'quoted' | 'string' | 'number' | 'symbol';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Identifier text without quotes; keywords and unquoted words are upper-cased in `upper`. */
+  value: string;
+  upper: string;
+  line: number;
+}
+
+export interface SqlStatement {
+  tokens: SqlToken[];
+  /** 1-based line of the first token. */
+  line: number;
+  text: string;
+}
+
+const WORD_START = /[A-Za-z_@#$À-￿]/;
+const WORD_PART = /[A-Za-z0-9_@#$À-￿]/;
+
+/** Split a script into statements on top-level semicolons, dropping comments. */
+export const tokenizeSql = (sql: string): SqlStatement[] => {
+  const statements: SqlStatement[] = [];
+  let tokens: SqlToken[] = [];
+  let statementStart = -1;
+  let line = 1;
+  let i = 0;
+
+  const push = (type: SqlTokenType, value: string, start: number, tokenLine: number) => {
+    if (tokens.length === 0) statementStart = start;
+    tokens.push({ type, value, upper: type === 'word' ? value.toUpperCase() : value, line: tokenLine });
+  };
+
+  const endStatement = (end: number) => {
+    if (tokens.length > 0) {
+      statements.push({ tokens, line: tokens[0].line, text: sql.slice(statementStart, end).trim() });
+    }
+    tokens = [];
+  };
+
+  const countLines = (from: number, to: number) => {
+    for (let j = from; j < to; j++) if (sql[j] === '\n') line++;
+  };
+
+  // Reads a delimited run (quoted identifier or string) where a doubled
+  // closing character escapes itself. Returns the index after the closer.
+  const readDelimited = (start: number, close: string): { value: string; end: number } => {
+    let value = '';
+    let j = start + 1;
+    while (j < sql.length) {
+      if (sql[j] === close) {
+        if (sql[j + 1] === close) {
+          value += close;
+          j += 2;
+          continue;
+        }
+        return { value, end: j + 1 };
+      }
+      value += sql[j++];
+    }
+    return { value, end: j };
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    const tokenLine = line;
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '-' && next === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      countLines(i, stop);
+      i = stop;
+    } else if (char === ';') {
+      endStatement(i);
+      i++;
+    } else if (char === "'") {
+      const { value, end } = readDelimited(i, "'");
+      push('string', value, i, tokenLine);
+      countLines(i, end);
+      i = end;
+    } else if (char === '$' && /[$A-Za-z_]/.test(next || '')) {
+      // Postgres dollar-quoted body: $$...$$ or $tag$...$tag$
+      const tagEnd = sql.indexOf('$', i + 1);
+      const tag = tagEnd === -1 ? '' : sql.slice(i, tagEnd + 1);
+      if (tag && /^\$[A-Za-z_0-9]*\$$/.test(tag)) {
+        const close = sql.indexOf(tag, tagEnd + 1);
+        const stop = close === -1 ? sql.length : close + tag.length;
+        push('string', sql.slice(tagEnd + 1, close === -1 ? sql.length : close), i, tokenLine);
+        countLines(i, stop);
+        i = stop;
+      } else {
+        push('symbol', char, i, tokenLine);
+        i++;
+      }
+    } else if (char === '"' || char === '`' || char === '[') {
+      const { value, end } = readDelimited(i, char === '[' ? ']' : char);
+      push('quoted', value, i, tokenLine);
+      countLines(i, end);
+      i = end;
+    } else if (/[0-9]/.test(char)) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9.eE]/.test(sql[j])) j++;
+      push('number', sql.slice(i, j), i, tokenLine);
+      i = j;
+    } else if (WORD_START.test(char)) {
+      let j = i + 1;
+      while (j < sql.length && WORD_PART.test(sql[j])) j++;
+      push('word', sql.slice(i, j), i, tokenLine);
+      i = j;
+    } else {
+      push('symbol', char, i, tokenLine);
+      i++;
+    }
+  }
+  endStatement(sql.length);
+
+  return statements;
+};
+
+const isNamePart = (token?: SqlToken) => token?.type === 'word' || token?.type === 'quoted';
+
+const namePart = (token: SqlToken) => (token.type === 'quoted' ? token.value : token.value.toLowerCase());
+
+/**
+ * Reads a possibly qualified object name (`db.schema.table`) starting at
+ * `index`. Unquoted parts are lower-cased, since SQL folds their case.
+ */
+export const readQualifiedName = (tokens: SqlToken[], index: number): { name: string; next: number } | null => {
+  if (!isNamePart(tokens[index])) return null;
+  const parts = [namePart(tokens[index])];
+  let next = index + 1;
+  while (tokens[next]?.value === '.' && isNamePart(tokens[next + 1])) {
+    parts.push(namePart(tokens[next + 1]));
+    next += 2;
+  }
+  return { name: parts.join('.'), next };
+};
+
+/** Index just past the parenthesised group opening at `index`. */
+export const skipParentheses = (tokens: SqlToken[], index: number): number => {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].value === '(' && tokens[i].type === 'symbol') depth++;
+    if (tokens[i].value === ')' && tokens[i].type === 'symbol') depth--;
+    if (depth === 0) return i + 1;
+  }
+  return tokens.length;
+};
+
+/** True if the words starting at `index` match `words` (upper-case keywords). */
+export const matchWords = (tokens: SqlToken[], index: number, words: string[]): boolean =>
+  words.every((word, offset) => tokens[index + offset]?.type === 'word' && tokens[index + offset].upper === word);
+
+/** Shortened single-line statement text for error messages. */
+export const statementPreview = (statement: SqlStatement, length = 80): string => {
+  const text = statement.text.replace(/\s+/g, ' ');
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+};
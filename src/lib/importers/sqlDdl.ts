@@ -0,0 +1,233 @@
+// Foreign keys from SQL DDL.
+//
+// CREATE TABLE column and table constraints and ALTER TABLE ... ADD
+// FOREIGN KEY clauses become edges from the referencing (child) table to the
+// referenced (parent) table, labelled FK(column→column). A REFERENCES clause
+// without columns points at the parent's primary key when the dump defines it.
+
+import { SqlStatement, SqlToken, matchWords, readQualifiedName, skipParentheses } from './sql';
+
+export interface ForeignKey {
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  /** Empty when the clause relies on the referenced table's primary key. */
+  referencedColumns: string[];
+}
+
+export interface DdlStatement {
+  table: string;
+  primaryKey: string[];
+  foreignKeys: ForeignKey[];
+  /** Parts of the statement that could not be understood. */
+  problems: string[];
+}
+
+// Words between CREATE and TABLE in the dialects we see in dumps
+const CREATE_TABLE_MODIFIERS = new Set([
+  'OR', 'REPLACE', 'TEMP', 'TEMPORARY', 'TRANSIENT', 'VOLATILE', 'GLOBAL', 'LOCAL', 'UNLOGGED', 'MULTISET', 'SET',
+]);
+
+const OTHER_TABLE_ELEMENTS = new Set([
+  'UNIQUE', 'CHECK', 'INDEX', 'KEY', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'PERIOD', 'LIKE',
+]);
+
+// First words of column types, to tell a column named e.g. "key" from a KEY
+// index: `key varchar(10)` is a column, `KEY idx (a)` is not
+const DATA_TYPES = new Set([
+  'INT', 'INTEGER', 'BIGINT', 'SMALLINT', 'TINYINT', 'MEDIUMINT', 'INT2', 'INT4', 'INT8', 'SERIAL', 'BIGSERIAL',
+  'SMALLSERIAL', 'DECIMAL', 'DEC', 'NUMERIC', 'NUMBER', 'FLOAT', 'FLOAT4', 'FLOAT8', 'REAL', 'DOUBLE', 'MONEY',
+  'BIT', 'BOOLEAN', 'BOOL', 'CHAR', 'CHARACTER', 'VARCHAR', 'VARCHAR2', 'NCHAR', 'NVARCHAR', 'NVARCHAR2', 'TEXT',
+  'TINYTEXT', 'MEDIUMTEXT', 'LONGTEXT', 'CLOB', 'NCLOB', 'STRING', 'BLOB', 'BYTEA', 'BINARY', 'VARBINARY', 'RAW',
+  'DATE', 'TIME', 'TIMESTAMP', 'TIMESTAMPTZ', 'TIMETZ', 'DATETIME', 'DATETIME2', 'DATETIMEOFFSET',
+  'SMALLDATETIME', 'INTERVAL', 'YEAR', 'UUID', 'UNIQUEIDENTIFIER', 'JSON', 'JSONB', 'XML', 'ENUM', 'SET',
+  'VARIANT', 'OBJECT', 'ARRAY', 'GEOMETRY', 'GEOGRAPHY', 'INET', 'CIDR',
+]);
+
+// A column definition is a name followed by a type. Constraints never hold a
+// REFERENCES clause, so one also marks a column, e.g. of a user-defined type.
+const isColumnDefinition = (element: SqlToken[]) =>
+  (element[1]?.type === 'word' && DATA_TYPES.has(element[1].upper)) ||
+  element.some(token => token.type === 'word' && token.upper === 'REFERENCES');
+
+const isSymbol = (token: SqlToken | undefined, value: string) => token?.type === 'symbol' && token.value === value;
+
+const columnName = (token: SqlToken) => (token.type === 'quoted' ? token.value : token.value.toLowerCase());
+
+/** Column names of a parenthesised list starting at `index`. */
+const readColumnList = (tokens: SqlToken[], index: number): { columns: string[]; next: number } | null => {
+  if (!isSymbol(tokens[index], '(')) return null;
+  const end = skipParentheses(tokens, index);
+  const columns = tokens
+    .slice(index + 1, end - 1)
+    .filter(token => token.type === 'word' || token.type === 'quoted')
+    // Drop ordering/length qualifiers that some dialects allow in key lists
+    .filter(token => token.type === 'quoted' || !['ASC', 'DESC'].includes(token.upper))
+    .map(columnName);
+  return { columns, next: end };
+};
+
+/** `REFERENCES table [(columns)]` at `index`. */
+const readReferences = (tokens: SqlToken[], index: number) => {
+  if (!matchWords(tokens, index, ['REFERENCES'])) return null;
+  const table = readQualifiedName(tokens, index + 1);
+  if (!table) return null;
+  const columns = readColumnList(tokens, table.next);
+  return { table: table.name, columns: columns ? columns.columns : [] };
+};
+
+/** Splits the tokens of a parenthesised group into its top-level comma-separated elements. */
+const splitElements = (tokens: SqlToken[], open: number, close: number): SqlToken[][] => {
+  const elements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+  for (let i = open + 1; i < close; i++) {
+    const token = tokens[i];
+    if (isSymbol(token, '(')) depth++;
+    if (isSymbol(token, ')')) depth--;
+    if (depth === 0 && isSymbol(token, ',')) {
+      elements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) elements.push(current);
+  return elements;
+};
+
+/**
+ * Reads a table constraint (`[CONSTRAINT name] PRIMARY KEY (...)` or
+ * `[CONSTRAINT name] FOREIGN KEY (...) REFERENCES ...`) into `result`.
+ * Returns false if the tokens are not a key constraint at all.
+ */
+const readKeyConstraint = (tokens: SqlToken[], start: number, result: DdlStatement): boolean => {
+  let i = start;
+  if (matchWords(tokens, i, ['CONSTRAINT'])) i += 2;
+
+  if (matchWords(tokens, i, ['PRIMARY', 'KEY'])) {
+    const columns = readColumnList(tokens, i + 2);
+    if (columns) result.primaryKey = columns.columns;
+    else result.problems.push('PRIMARY KEY without a column list');
+    return true;
+  }
+
+  if (matchWords(tokens, i, ['FOREIGN', 'KEY'])) {
+    const columns = readColumnList(tokens, i + 2);
+    const references = columns && readReferences(tokens, columns.next);
+    if (!columns || !references) {
+      result.problems.push('FOREIGN KEY without a column list or REFERENCES clause');
+    } else if (references.columns.length > 0 && references.columns.length !== columns.columns.length) {
+      result.problems.push(`FOREIGN KEY (${columns.columns.join(', ')}) references a different number of columns`);
+    } else {
+      result.foreignKeys.push({
+        table: result.table,
+        columns: columns.columns,
+        referencedTable: references.table,
+        referencedColumns: references.columns,
+      });
+    }
+    return true;
+  }
+
+  return false;
+};
+
+const parseCreateTable = (tokens: SqlToken[], start: number): DdlStatement | null => {
+  let i = start;
+  while (tokens[i]?.type === 'word' && CREATE_TABLE_MODIFIERS.has(tokens[i].upper)) i++;
+  if (!matchWords(tokens, i, ['TABLE'])) return null;
+  i++;
+  if (matchWords(tokens, i, ['IF', 'NOT', 'EXISTS'])) i += 3;
+
+  const table = readQualifiedName(tokens, i);
+  if (!table) return null;
+  // CREATE TABLE ... AS SELECT / LIKE / CLONE carry lineage, not keys
+  if (!isSymbol(tokens[table.next], '(')) return null;
+  const close = skipParentheses(tokens, table.next) - 1;
+  if (tokens.slice(close).some(token => token.type === 'word' && token.upper === 'SELECT')) return null;
+
+  const result: DdlStatement = { table: table.name, primaryKey: [], foreignKeys: [], problems: [] };
+
+  splitElements(tokens, table.next, close).forEach(element => {
+    if (element.length === 0) return;
+    if (readKeyConstraint(element, 0, result)) return;
+
+    // Other constraints and index definitions carry no relationships
+    const first = element[0];
+    const kind = first.type === 'word' && first.upper === 'CONSTRAINT' ? element[2] : first;
+    if (kind?.type === 'word' && OTHER_TABLE_ELEMENTS.has(kind.upper) && (first !== kind || !isColumnDefinition(element))) {
+      return;
+    }
+    if (first !== kind) {
+      result.problems.push(`Unsupported constraint ${element[1]?.value || ''}`.trim());
+      return;
+    }
+    if (first.type !== 'word' && first.type !== 'quoted') {
+      result.problems.push(`Unrecognised table element starting with "${first.value}"`);
+      return;
+    }
+
+    // Column definition with optional inline PRIMARY KEY / REFERENCES
+    const column = columnName(first);
+    element.forEach((token, index) => {
+      if (matchWords(element, index, ['PRIMARY', 'KEY'])) result.primaryKey = [column];
+      if (token.type === 'word' && token.upper === 'REFERENCES') {
+        const references = readReferences(element, index);
+        if (!references) {
+          result.problems.push(`Column ${column} has a REFERENCES clause without a table`);
+        } else {
+          result.foreignKeys.push({
+            table: result.table,
+            columns: [column],
+            referencedTable: references.table,
+            referencedColumns: references.columns.slice(0, 1),
+          });
+        }
+      }
+    });
+  });
+
+  return result;
+};
+
+const parseAlterTable = (tokens: SqlToken[], start: number): DdlStatement | null => {
+  let i = start;
+  if (!matchWords(tokens, i, ['TABLE'])) return null;
+  i++;
+  if (matchWords(tokens, i, ['IF', 'EXISTS'])) i += 2;
+  if (matchWords(tokens, i, ['ONLY'])) i++;
+
+  const table = readQualifiedName(tokens, i);
+  if (!table) return null;
+
+  const result: DdlStatement = { table: table.name, primaryKey: [], foreignKeys: [], problems: [] };
+  let depth = 0;
+  let sawKeyClause = false;
+  for (let j = table.next; j < tokens.length; j++) {
+    if (isSymbol(tokens[j], '(')) depth++;
+    if (isSymbol(tokens[j], ')')) depth--;
+    if (depth !== 0 || !matchWords(tokens, j, ['ADD'])) continue;
+    if (readKeyConstraint(tokens, j + 1, result)) sawKeyClause = true;
+  }
+
+  // ALTER TABLE ... ADD COLUMN, RENAME and friends carry no relationships
+  return sawKeyClause ? result : null;
+};
+
+/** Keys declared by a DDL statement, or null if it declares none. */
+export const parseDdlStatement = (statement: SqlStatement): DdlStatement | null => {
+  const { tokens } = statement;
+  if (matchWords(tokens, 0, ['CREATE'])) return parseCreateTable(tokens, 1);
+  if (matchWords(tokens, 0, ['ALTER'])) return parseAlterTable(tokens, 1);
+  return null;
+};
+
+/** The schema part of a qualified name, used as the table type. */
+export const schemaOf = (tableName: string): string => {
+  const parts = tableName.split('.');
+  return parts.length >= 2 ? parts[parts.length - 2] : 'default';
+};
+
+export const foreignKeyLabel = (columns: string[], referencedColumns: string[]): string =>
+  `FK(${columns.join(', ')}→${referencedColumns.length > 0 ? referencedColumns.join(', ') : '?'})`;
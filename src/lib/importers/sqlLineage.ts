@@ -0,0 +1,301 @@
+// Lineage inferred from SQL transformation scripts.
+//
+// CREATE TABLE ... AS, CREATE VIEW, INSERT INTO ... SELECT and MERGE
+// statements each yield one target; the FROM/JOIN (and MERGE USING) sources
+// of their query become its parents, with the statement kind as the
+// relationship. CTE names are local to the statement and are not sources.
+// Foreign keys declared by DDL in the same scripts (see sqlDdl.ts) are added
+// as FK edges, so schema dumps and transformation scripts can be mixed.
+
+import { CsvParseError, ParsedCsv } from '@/lib/csv';
+import { LINEAGE_ROLES } from '@/lib/headerMapping';
+import { ForeignKey, foreignKeyLabel, parseDdlStatement, schemaOf } from './sqlDdl';
+import {
+  SqlStatement,
+  SqlToken,
+  matchWords,
+  readQualifiedName,
+  skipParentheses,
+  statementPreview,
+  tokenizeSql,
+} from './sql';
+
+export type SqlLineageKind = 'CREATE TABLE AS' | 'CREATE VIEW' | 'INSERT' | 'MERGE';
+
+export interface SqlLineageStatement {
+  kind: SqlLineageKind;
+  target: string;
+  sources: string[];
+}
+
+export interface SqlScript {
+  fileName: string;
+  text: string;
+}
+
+// Statements that never carry lineage and are skipped without a warning
+const IGNORED_STATEMENTS = new Set([
+  'USE', 'SET', 'GRANT', 'REVOKE', 'DROP', 'TRUNCATE', 'BEGIN', 'COMMIT', 'ROLLBACK', 'START', 'END',
+  'ANALYZE', 'VACUUM', 'COMMENT', 'DECLARE', 'EXPLAIN', 'SHOW', 'DESCRIBE', 'CALL', 'EXEC', 'EXECUTE',
+  'GO', 'PRINT', 'DELETE', 'UPDATE', 'SELECT', 'ALTER', 'COPY', 'UNLOAD', 'PUT', 'GET', 'REFRESH',
+]);
+
+// Words that may appear between CREATE and TABLE/VIEW
+const CREATE_MODIFIERS = new Set([
+  'OR', 'REPLACE', 'TEMP', 'TEMPORARY', 'TRANSIENT', 'VOLATILE', 'GLOBAL', 'LOCAL', 'MATERIALIZED',
+  'SECURE', 'RECURSIVE', 'UNLOGGED', 'EXTERNAL', 'MULTISET', 'SET', 'FORCE', 'NOFORCE',
+]);
+
+// Words that can follow a table reference and therefore are never its alias
+const CLAUSE_WORDS = new Set([
+  'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'JOIN',
+  'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'NATURAL', 'ON', 'USING', 'WINDOW', 'QUALIFY',
+  'LATERAL', 'FETCH', 'OFFSET', 'FOR', 'WHEN', 'SET', 'TABLESAMPLE', 'PIVOT', 'UNPIVOT', 'AS', 'WITH',
+  'SELECT', 'VALUES', 'RETURNING', 'INTO', 'APPLY', 'STRAIGHT_JOIN', 'CONNECT', 'START',
+]);
+
+// Clauses after which a comma no longer separates table references
+const FROM_LIST_END_WORDS = new Set([
+  'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'WINDOW',
+  'QUALIFY', 'FETCH', 'OFFSET', 'WHEN', 'SET', 'VALUES', 'RETURNING', 'CONNECT', 'START',
+]);
+
+const skipIfNotExists = (tokens: SqlToken[], index: number) =>
+  matchWords(tokens, index, ['IF', 'NOT', 'EXISTS']) ? index + 3 : index;
+
+/** Names defined by WITH clauses anywhere in the statement. */
+const collectCteNames = (tokens: SqlToken[]): Set<string> => {
+  const names = new Set<string>();
+  tokens.forEach((token, i) => {
+    const previous = tokens[i - 1];
+    const startsCte =
+      previous &&
+      ((previous.type === 'word' && (previous.upper === 'WITH' || previous.upper === 'RECURSIVE')) ||
+        (previous.type === 'symbol' && previous.value === ','));
+    if (!startsCte) return;
+
+    const name = readQualifiedName(tokens, i);
+    if (!name) return;
+    let next = name.next;
+    if (tokens[next]?.value === '(') next = skipParentheses(tokens, next);
+    if (matchWords(tokens, next, ['AS'])) {
+      let body = next + 1;
+      if (matchWords(tokens, body, ['NOT', 'MATERIALIZED'])) body += 2;
+      else if (matchWords(tokens, body, ['MATERIALIZED'])) body += 1;
+      if (tokens[body]?.value === '(') names.add(name.name);
+    }
+  });
+  return names;
+};
+
+/**
+ * Table references read by a query: whatever follows FROM or JOIN (and the
+ * comma-separated FROM list) at a nesting level that contains a SELECT, so
+ * that `EXTRACT(YEAR FROM col)` is not mistaken for a table.
+ */
+const collectSources = (tokens: SqlToken[], start: number, extraSourceKeywords: string[] = []): string[] => {
+  const sources: string[] = [];
+  // Per nesting level: whether it holds a SELECT, and whether a comma there
+  // continues a FROM list (`FROM a, b` or `FROM a JOIN b ON ..., c`)
+  const levelIsQuery: boolean[] = [false];
+  const levelInFromList: boolean[] = [false];
+
+  const readReference = (index: number): number => {
+    // Subqueries and table functions are walked by the main loop
+    if (tokens[index]?.value === '(') return index;
+    if (matchWords(tokens, index, ['LATERAL']) || matchWords(tokens, index, ['ONLY'])) index++;
+    const reference = readQualifiedName(tokens, index);
+    if (!reference) return index;
+    if (tokens[reference.next]?.value === '(') return reference.next; // table function
+    sources.push(reference.name);
+
+    // Skip an optional alias
+    let next = reference.next;
+    if (matchWords(tokens, next, ['AS'])) next++;
+    const alias = tokens[next];
+    if (alias && (alias.type === 'quoted' || (alias.type === 'word' && !CLAUSE_WORDS.has(alias.upper)))) next++;
+    return next;
+  };
+
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+    const depth = levelIsQuery.length - 1;
+
+    if (token.type === 'symbol' && token.value === '(') {
+      levelIsQuery.push(false);
+      levelInFromList.push(false);
+      continue;
+    }
+    if (token.type === 'symbol' && token.value === ')') {
+      if (depth > 0) {
+        levelIsQuery.pop();
+        levelInFromList.pop();
+      }
+      continue;
+    }
+    if (token.type === 'symbol' && token.value === ',' && levelInFromList[depth]) {
+      i = readReference(i + 1) - 1;
+      continue;
+    }
+    if (token.type !== 'word') continue;
+
+    if (token.upper === 'SELECT') {
+      levelIsQuery[depth] = true;
+      levelInFromList[depth] = false;
+    } else if (token.upper === 'FROM' && levelIsQuery[depth]) {
+      i = readReference(i + 1) - 1;
+      levelInFromList[depth] = true;
+    } else if (token.upper === 'JOIN' || extraSourceKeywords.includes(token.upper)) {
+      i = readReference(i + 1) - 1;
+    } else if (FROM_LIST_END_WORDS.has(token.upper)) {
+      levelInFromList[depth] = false;
+    }
+  }
+
+  return sources;
+};
+
+/** Extract the lineage of one statement, or null if it is not a supported kind. */
+export const parseSqlLineageStatement = (statement: SqlStatement): SqlLineageStatement | null => {
+  const { tokens } = statement;
+  let i = 0;
+
+  // A leading WITH belongs to the query of INSERT ... / CTAS in some dialects
+  if (matchWords(tokens, 0, ['WITH'])) {
+    const insertAt = tokens.findIndex(token => token.type === 'word' && token.upper === 'INSERT');
+    if (insertAt === -1) return null;
+    i = insertAt;
+  }
+
+  const cteNames = collectCteNames(tokens);
+  const finish = (kind: SqlLineageKind, target: string, sources: string[]): SqlLineageStatement => ({
+    kind,
+    target,
+    sources: Array.from(new Set(sources.filter(source => !cteNames.has(source) && source !== target))),
+  });
+
+  if (matchWords(tokens, i, ['CREATE'])) {
+    i++;
+    while (tokens[i]?.type === 'word' && CREATE_MODIFIERS.has(tokens[i].upper)) i++;
+    const objectKind = tokens[i]?.upper;
+    if (objectKind !== 'TABLE' && objectKind !== 'VIEW') return null;
+
+    const target = readQualifiedName(tokens, skipIfNotExists(tokens, i + 1));
+    if (!target) return null;
+    let next = target.next;
+
+    // Column list (views) — for tables a parenthesised list before AS is also allowed
+    if (tokens[next]?.value === '(') next = skipParentheses(tokens, next);
+    const asIndex = tokens.findIndex((token, index) => index >= next && token.type === 'word' && token.upper === 'AS');
+    if (asIndex === -1) return null;
+
+    return finish(
+      objectKind === 'VIEW' ? 'CREATE VIEW' : 'CREATE TABLE AS',
+      target.name,
+      collectSources(tokens, asIndex + 1)
+    );
+  }
+
+  if (matchWords(tokens, i, ['INSERT'])) {
+    i++;
+    if (matchWords(tokens, i, ['OVERWRITE']) || matchWords(tokens, i, ['INTO'])) i++;
+    if (matchWords(tokens, i, ['TABLE'])) i++;
+    const target = readQualifiedName(tokens, i);
+    if (!target) return null;
+    if (tokens.every(token => token.type !== 'word' || token.upper !== 'SELECT')) return null; // INSERT ... VALUES
+    // From the start, so that the bodies of a leading WITH are included
+    return finish('INSERT', target.name, collectSources(tokens, 0));
+  }
+
+  if (matchWords(tokens, i, ['MERGE'])) {
+    i++;
+    if (matchWords(tokens, i, ['INTO'])) i++;
+    const target = readQualifiedName(tokens, i);
+    if (!target) return null;
+    return finish('MERGE', target.name, collectSources(tokens, target.next, ['USING']));
+  }
+
+  return null;
+};
+
+const isIgnoredStatement = (statement: SqlStatement): boolean => {
+  const [first, second] = statement.tokens;
+  if (first.type !== 'word') return false;
+  if (IGNORED_STATEMENTS.has(first.upper)) return true;
+
+  // INSERT ... VALUES and plain CREATE TABLE definitions read no other table
+  const hasQuery = statement.tokens.some(token => token.type === 'word' && token.upper === 'SELECT');
+  if (!hasQuery && (first.upper === 'INSERT' || (first.upper === 'CREATE' &&
+    statement.tokens.some(token => token.type === 'word' && token.upper === 'TABLE')))) {
+    return true;
+  }
+
+  // CREATE SCHEMA/DATABASE/INDEX/FUNCTION/... create no data lineage
+  return first.upper === 'CREATE' && second?.type === 'word' &&
+    ['SCHEMA', 'DATABASE', 'INDEX', 'UNIQUE', 'SEQUENCE', 'FUNCTION', 'PROCEDURE', 'ROLE', 'USER',
+      'STAGE', 'FILE', 'WAREHOUSE', 'TYPE', 'EXTENSION', 'TRIGGER'].includes(second.upper);
+};
+
+/**
+ * Lineage rows for a set of SQL scripts. Statements that should describe
+ * lineage but could not be understood are reported with their file and line.
+ */
+export const importSqlScripts = (scripts: SqlScript[]): ParsedCsv => {
+  const parsed: SqlLineageStatement[] = [];
+  const foreignKeys: ForeignKey[] = [];
+  const primaryKeys = new Map<string, string[]>();
+  const ddlTables = new Set<string>();
+  const errors: CsvParseError[] = [];
+
+  scripts.forEach(({ fileName, text }) => {
+    tokenizeSql(text).forEach(statement => {
+      const lineage = parseSqlLineageStatement(statement);
+      const ddl = lineage ? null : parseDdlStatement(statement);
+      if (lineage && lineage.sources.length > 0) {
+        parsed.push(lineage);
+      } else if (lineage) {
+        errors.push({ line: statement.line, message: `${fileName}: no source tables found in ${statementPreview(statement)}` });
+      } else if (ddl) {
+        ddlTables.add(ddl.table);
+        ddl.foreignKeys.forEach(foreignKey => ddlTables.add(foreignKey.referencedTable));
+        foreignKeys.push(...ddl.foreignKeys);
+        if (ddl.primaryKey.length > 0) primaryKeys.set(ddl.table, ddl.primaryKey);
+        ddl.problems.forEach(problem => {
+          errors.push({ line: statement.line, message: `${fileName}: unsupported syntax in ${ddl.table} (${problem})` });
+        });
+      } else if (!isIgnoredStatement(statement)) {
+        errors.push({ line: statement.line, message: `${fileName}: could not parse ${statementPreview(statement)}` });
+      }
+    });
+  });
+
+  // An object created as a view anywhere is a view everywhere; tables named in
+  // DDL are typed by schema like their foreign key edges
+  const views = new Set(parsed.filter(({ kind }) => kind === 'CREATE VIEW').map(({ target }) => target));
+  const typeOf = (name: string) => {
+    if (views.has(name)) return 'view';
+    return ddlTables.has(name) ? schemaOf(name) : 'table';
+  };
+
+  const rows: string[][] = [];
+  const seen = new Set<string>();
+  parsed.forEach(({ kind, target, sources }) => {
+    sources.forEach(source => {
+      const key = JSON.stringify([source, target, kind]);
+      if (seen.has(key)) return;
+      seen.add(key);
+      rows.push([target, typeOf(target), kind, source, typeOf(source)]);
+    });
+  });
+
+  foreignKeys.forEach(({ table, columns, referencedTable, referencedColumns }) => {
+    const resolvedColumns = referencedColumns.length > 0 ? referencedColumns : primaryKeys.get(referencedTable) || [];
+    const relationship = foreignKeyLabel(columns, resolvedColumns);
+    const key = JSON.stringify([referencedTable, table, relationship]);
+    if (seen.has(key)) return;
+    seen.add(key);
+    rows.push([table, typeOf(table), relationship, referencedTable, typeOf(referencedTable)]);
+  });
+
+  return { headers: [...LINEAGE_ROLES], rows, errors };
+};
@@ -0,0 +1,81 @@
+// Lineage kept in Excel workbooks. Sheets are read locally with SheetJS and
+// turned into the same header/row structure as a CSV; combining several
+// sheets lines their columns up by header name.
+
+import { WorkSheet, read, utils } from 'xlsx';
+import { CsvParseError, ParsedCsv } from '@/lib/csv';
+
+export const listWorkbookSheets = (data: ArrayBuffer): string[] =>
+  read(data, { type: 'array', bookSheets: true }).SheetNames;
+
+interface SheetRecord {
+  fields: string[];
+  /** 1-based row number in the sheet, as Excel shows it. */
+  row: number;
+}
+
+// Non-blank rows of a sheet with their row numbers, which blank rows and
+// an offset used range would otherwise lose
+const readSheet = (sheet: WorkSheet): SheetRecord[] => {
+  const firstRow = sheet['!ref'] ? utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+  // Formatted text, so dates and numbers look like they do in Excel
+  const records = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+  return records
+    .map((record, index) => ({ fields: record.map(value => String(value ?? '').trim()), row: firstRow + index }))
+    .filter(({ fields }) => fields.some(Boolean));
+};
+
+const readSheetRecords = (data: ArrayBuffer, sheetNames: string[]) => {
+  const workbook = read(data, { type: 'array', sheets: sheetNames });
+  return sheetNames.map(sheetName => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) throw new Error(`The workbook has no sheet named "${sheetName}"`);
+    return { sheetName, records: readSheet(sheet) };
+  });
+};
+
+/**
+ * Rows of the chosen sheets. The first sheet's header row defines the
+ * columns; columns of later sheets are matched to it by name. Every row
+ * keeps its sheet and row number for validation reports.
+ */
+export const importWorkbookSheets = (data: ArrayBuffer, sheetNames: string[]): ParsedCsv => {
+  if (sheetNames.length === 0) throw new Error('No sheet selected');
+
+  const [first, ...others] = readSheetRecords(data, sheetNames);
+  const headers = first.records[0]?.fields || [];
+  const rows: string[][] = [];
+  const rowLines: number[] = [];
+  const rowSheets: string[] = [];
+  const errors: CsvParseError[] = [];
+
+  const addRow = (fields: string[], row: number, sheetName: string) => {
+    rows.push(fields);
+    rowLines.push(row);
+    rowSheets.push(sheetName);
+  };
+
+  first.records.slice(1).forEach(({ fields, row }) => addRow(fields, row, first.sheetName));
+
+  others.forEach(({ sheetName, records }) => {
+    const sheetHeaders = records[0]?.fields || [];
+    const columnIndexes = headers.map(header => sheetHeaders.indexOf(header));
+
+    headers.forEach((header, index) => {
+      if (columnIndexes[index] === -1) {
+        errors.push({ line: 0, message: `Sheet "${sheetName}" has no "${header}" column; its values are left empty` });
+      }
+    });
+    sheetHeaders.forEach(header => {
+      if (header && !headers.includes(header)) {
+        errors.push({ line: 0, message: `Column "${header}" of sheet "${sheetName}" is not in "${first.sheetName}" and was ignored` });
+      }
+    });
+
+    records.slice(1).forEach(({ fields, row }) => {
+      addRow(columnIndexes.map(index => (index === -1 ? '' : fields[index] || '')), row, sheetName);
+    });
+  });
+
+  return { headers, rows, errors, rowLines, rowSheets };
+};
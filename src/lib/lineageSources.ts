@@ -0,0 +1,47 @@
+// Several lineage files loaded together. Each file is mapped and validated on
+// its own, then their rows are unioned into one document with a column
+// recording which file every row came from.
+
+import { CsvDocument, ParsedCsv } from '@/lib/csv';
+
+export const SOURCE_FILE_COLUMN = 'sourceFile';
+
+export interface LineageSource extends ParsedCsv {
+  /** File path, or a summary such as "3 SQL scripts" for files imported together. */
+  fileName: string;
+  /** Why the file was skipped, when it could not be imported alongside others. */
+  skipReason?: string;
+}
+
+/** What the page sees of a loaded source until its headers are mapped. */
+export interface LineageSourceSummary {
+  fileName: string;
+  headers: string[];
+  rowCount: number;
+  /** The first rows, to show while mapping columns. */
+  previewRows: string[][];
+  skipReason?: string;
+}
+
+/**
+ * Union the rows of several sources. Columns are matched by name, in the
+ * order they first appear, and a sourceFile column is appended.
+ */
+export const mergeLineageSources = (sources: LineageSource[]): CsvDocument => {
+  const headers: string[] = [];
+  sources.forEach(source => {
+    source.headers.forEach(header => {
+      if (header !== SOURCE_FILE_COLUMN && !headers.includes(header)) headers.push(header);
+    });
+  });
+
+  const rows: string[][] = [];
+  sources.forEach(({ fileName, headers: sourceHeaders, rows: sourceRows }) => {
+    const columnIndexes = headers.map(header => sourceHeaders.indexOf(header));
+    sourceRows.forEach(row => {
+      rows.push([...columnIndexes.map(index => (index === -1 ? '' : row[index] || '')), fileName]);
+    });
+  });
+
+  return { headers: [...headers, SOURCE_FILE_COLUMN], rows };
+};
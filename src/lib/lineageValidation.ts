@@ -0,0 +1,199 @@
+// Row-level checks run on a lineage file after its headers are mapped.
+
+import { ParsedCsv } from '@/lib/csv';
+import { LineageSource } from '@/lib/lineageSources';
+
+export type ValidationIssueKind =
+  | 'parse-error'
+  | 'ragged-row'
+  | 'empty-table-name'
+  | 'duplicate-edge'
+  | 'type-conflict';
+
+export interface ValidationIssue {
+  /**
+   * Line the row starts on in its file: the header is line 1, data starts at
+   * line 2. For workbooks, the row in `sheetName`. 0 for problems that are
+   * not tied to a row (e.g. from JSON imports).
+   */
+  row: number;
+  /** The workbook sheet the row belongs to. */
+  sheetName?: string;
+  kind: ValidationIssueKind;
+  message: string;
+  /** The file the row belongs to, when several files were loaded together. */
+  fileName?: string;
+}
+
+export const ISSUE_LABELS: Record<ValidationIssueKind, string> = {
+  'parse-error': 'Parse error',
+  'ragged-row': 'Ragged row',
+  'empty-table-name': 'Empty table name',
+  'duplicate-edge': 'Duplicate edge',
+  'type-conflict': 'Type conflict',
+};
+
+const FIRST_DATA_ROW = 2;
+
+interface RowLocation {
+  row: number;
+  sheetName?: string;
+}
+
+/** Where a row of a source came from, as reported to the user. */
+const rowLocation = (source: ParsedCsv, index: number): RowLocation => ({
+  row: source.rowLines?.[index] ?? index + FIRST_DATA_ROW,
+  sheetName: source.rowSheets?.[index],
+});
+
+const describeRow = ({ row, sheetName }: RowLocation): string =>
+  sheetName ? `row ${row} of sheet "${sheetName}"` : `row ${row}`;
+
+export const validateLineage = (source: ParsedCsv): ValidationIssue[] => {
+  const { headers, rows } = source;
+  const issues: ValidationIssue[] = source.errors.map(({ line, message }) => ({
+    row: line,
+    kind: 'parse-error',
+    message,
+  }));
+
+  const column = {
+    childTableName: headers.indexOf('childTableName'),
+    childTableType: headers.indexOf('childTableType'),
+    relationship: headers.indexOf('relationship'),
+    parentTableName: headers.indexOf('parentTableName'),
+    parentTableType: headers.indexOf('parentTableType'),
+    // Optional: column-level rows repeat a table pair once per column
+    childColumnName: headers.indexOf('childColumnName'),
+    parentColumnName: headers.indexOf('parentColumnName'),
+  };
+
+  const firstEdgeRow = new Map<string, RowLocation>();
+  const firstType = new Map<string, { type: string; location: RowLocation }>();
+
+  const checkType = (tableName: string, tableType: string, location: RowLocation) => {
+    const seen = firstType.get(tableName);
+    if (!seen) {
+      firstType.set(tableName, { type: tableType, location });
+    } else if (seen.type !== tableType) {
+      issues.push({
+        ...location,
+        kind: 'type-conflict',
+        message: `Table "${tableName}" has type "${tableType}" here but "${seen.type}" on ${describeRow(seen.location)}`,
+      });
+    }
+  };
+
+  rows.forEach((fields, index) => {
+    const location = rowLocation(source, index);
+    const cell = (columnIndex: number) => (columnIndex === -1 ? '' : fields[columnIndex] || '');
+
+    if (fields.length !== headers.length) {
+      issues.push({
+        ...location,
+        kind: 'ragged-row',
+        message: `Expected ${headers.length} fields but found ${fields.length}`,
+      });
+    }
+
+    const childTableName = cell(column.childTableName);
+    const parentTableName = cell(column.parentTableName);
+    const relationship = cell(column.relationship);
+
+    // A table with no parent, relationship or parent type stands on its own
+    const standalone = !parentTableName && !relationship && !cell(column.parentTableType);
+
+    if (!childTableName) {
+      issues.push({ ...location, kind: 'empty-table-name', message: 'Child table name is empty' });
+    }
+    if (!parentTableName && !(childTableName && standalone)) {
+      issues.push({ ...location, kind: 'empty-table-name', message: 'Parent table name is empty' });
+    }
+
+    if (childTableName && parentTableName) {
+      const parentColumnName = cell(column.parentColumnName);
+      const childColumnName = cell(column.childColumnName);
+      const edgeKey = JSON.stringify([parentTableName, childTableName, relationship, parentColumnName, childColumnName]);
+      const duplicateOf = firstEdgeRow.get(edgeKey);
+      if (duplicateOf === undefined) {
+        firstEdgeRow.set(edgeKey, location);
+      } else {
+        const parent = parentColumnName ? `${parentTableName}.${parentColumnName}` : parentTableName;
+        const child = childColumnName ? `${childTableName}.${childColumnName}` : childTableName;
+        issues.push({
+          ...location,
+          kind: 'duplicate-edge',
+          message: `${parent} → ${child} (${relationship || 'no relationship'}) duplicates ${describeRow(duplicateOf)}`,
+        });
+      }
+    }
+
+    if (childTableName) checkType(childTableName, cell(column.childTableType), location);
+    if (parentTableName) checkType(parentTableName, cell(column.parentTableType), location);
+  });
+
+  // Sheets in the order they were read, rows in order within each
+  const sheetOrder = new Map(Array.from(new Set(source.rowSheets)).map((sheetName, index) => [sheetName, index]));
+  const sheetIndex = (sheetName?: string) => (sheetName === undefined ? -1 : sheetOrder.get(sheetName) ?? -1);
+  return issues.sort((a, b) => sheetIndex(a.sheetName) - sheetIndex(b.sheetName) || a.row - b.row);
+};
+
+/**
+ * Tables typed differently by different files. Conflicts within one file are
+ * reported by validateLineage.
+ */
+export const findCrossFileTypeConflicts = (sources: LineageSource[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const firstType = new Map<string, { type: string; fileName: string }>();
+
+  sources.forEach(source => {
+    const { fileName, headers, rows } = source;
+    const typesInFile = new Map<string, { type: string; location: RowLocation }>();
+    const collect = (nameColumn: number, typeColumn: number) => {
+      if (nameColumn === -1) return;
+      rows.forEach((fields, index) => {
+        const tableName = fields[nameColumn] || '';
+        if (tableName && !typesInFile.has(tableName)) {
+          typesInFile.set(tableName, {
+            type: typeColumn === -1 ? '' : fields[typeColumn] || '',
+            location: rowLocation(source, index),
+          });
+        }
+      });
+    };
+    collect(headers.indexOf('childTableName'), headers.indexOf('childTableType'));
+    collect(headers.indexOf('parentTableName'), headers.indexOf('parentTableType'));
+
+    typesInFile.forEach(({ type, location }, tableName) => {
+      const seen = firstType.get(tableName);
+      if (!seen) {
+        firstType.set(tableName, { type, fileName });
+      } else if (seen.type !== type) {
+        issues.push({
+          ...location,
+          kind: 'type-conflict',
+          fileName,
+          message: `Table "${tableName}" has type "${type}" here but "${seen.type}" in ${seen.fileName}`,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+export const issuesToCsvRecords = (issues: ValidationIssue[]): string[][] => {
+  // The file and sheet columns only appear for multi-file loads and workbooks
+  const withFile = issues.some(({ fileName }) => fileName);
+  const withSheet = issues.some(({ sheetName }) => sheetName);
+  return [
+    [...(withFile ? ['file'] : []), ...(withSheet ? ['sheet'] : []), 'row', 'issue', 'message'],
+    ...issues.map(({ row, kind, message, fileName, sheetName }) => [
+      ...(withFile ? [fileName || ''] : []),
+      ...(withSheet ? [sheetName || ''] : []),
+      row ? String(row) : '',
+      ISSUE_LABELS[kind],
+      message,
+    ]),
+  ];
+};
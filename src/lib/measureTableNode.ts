@@ -0,0 +1,70 @@
+// Size of a rendered TableNode, computed from its labels so that the layout
+// can leave room for long table names before React Flow has measured them.
+// The constants mirror the Tailwind classes used in TableNode.
+
+interface TableNodeLabels {
+  tableName: string;
+  tableType: string;
+  columns: string[];
+  expanded: boolean;
+  hasWarning: boolean;
+  hasFocusBoundary: boolean;
+  isPinned: boolean;
+}
+
+const MIN_WIDTH = 200; // min-w-[200px]
+const PADDING = 16; // p-4
+const BORDER = 2; // border-2
+const ICON = 20; // h-5 w-5
+const GAP = 8; // gap-2
+const STATUS_ICON = 16; // h-4 w-4
+const ACTION_BUTTON = 24; // h-6 w-6
+const TITLE_LINE = 20; // text-sm
+const SUBTITLE_LINE = 16; // text-xs
+const SECTION_MARGIN = 8; // mt-2
+const COLUMN_ROW = 24; // py-1 + text-xs
+const COLUMN_ROW_GAP = 2; // space-y-0.5
+const COLUMN_PADDING = 8; // px-2
+
+let context: CanvasRenderingContext2D | null = null;
+let fontFamily = 'sans-serif';
+
+const textWidth = (text: string, font: string): number => {
+  if (!context) {
+    context = document.createElement('canvas').getContext('2d');
+    fontFamily = getComputedStyle(document.body).fontFamily || fontFamily;
+  }
+  // Without a 2D canvas, fall back to an average glyph width
+  if (!context) return text.length * 7.5;
+  context.font = `${font} ${fontFamily}`;
+  return context.measureText(text).width;
+};
+
+export const measureTableNode = ({
+  tableName,
+  tableType,
+  columns,
+  expanded,
+  hasWarning,
+  hasFocusBoundary,
+  isPinned,
+}: TableNodeLabels) => {
+  const frame = 2 * (PADDING + BORDER);
+
+  const labelWidth = Math.max(textWidth(tableName, '600 14px'), textWidth(tableType, '12px'));
+  let width = ICON + GAP + labelWidth + GAP + ACTION_BUTTON;
+  if (hasWarning) width += GAP + STATUS_ICON;
+  if (isPinned) width += GAP + STATUS_ICON;
+  let height = TITLE_LINE + SUBTITLE_LINE;
+
+  if (columns.length > 0 || hasFocusBoundary) {
+    height += SECTION_MARGIN + SUBTITLE_LINE;
+  }
+  if (expanded && columns.length > 0) {
+    const widest = Math.max(...columns.map(column => textWidth(column, '500 12px')));
+    width = Math.max(width, widest + 2 * COLUMN_PADDING);
+    height += 2 * SECTION_MARGIN + 1 + columns.length * COLUMN_ROW + (columns.length - 1) * COLUMN_ROW_GAP;
+  }
+
+  return { width: Math.max(MIN_WIDTH, Math.ceil(width + frame)), height: Math.ceil(height + frame) };
+};
@@ -0,0 +1,56 @@
+// The part of the lineage within a few hops of a table, in either direction.
+// Hidden tables are bridged by bypass edges in the graph, so stepping onto
+// one costs no hop; they are included so those bypasses can still be drawn.
+
+export interface NeighbourhoodTable {
+  parents: string[];
+  children: string[];
+}
+
+export interface NeighbourhoodRoot {
+  tableName: string;
+  radius: number;
+}
+
+const neighboursOf = (tables: Map<string, NeighbourhoodTable>, tableName: string): string[] => {
+  const table = tables.get(tableName);
+  return table ? [...table.parents, ...table.children] : [];
+};
+
+/** Tables within each root's radius, found with a 0-1 breadth-first search. */
+export const findNeighbourhood = (
+  tables: Map<string, NeighbourhoodTable>,
+  roots: NeighbourhoodRoot[],
+  hiddenNodes: Set<string>
+): Set<string> => {
+  const neighbourhood = new Set<string>();
+
+  roots.forEach(({ tableName, radius }) => {
+    if (!tables.has(tableName)) return;
+    const distances = new Map([[tableName, 0]]);
+    // Zero-cost steps go to the front, so tables leave in distance order
+    const deque = [tableName];
+    while (deque.length > 0) {
+      const current = deque.shift()!;
+      const distance = distances.get(current)!;
+      neighbourhood.add(current);
+
+      neighboursOf(tables, current).forEach(next => {
+        const nextDistance = distance + (hiddenNodes.has(next) ? 0 : 1);
+        if (nextDistance > radius || nextDistance >= (distances.get(next) ?? Infinity)) return;
+        distances.set(next, nextDistance);
+        if (nextDistance === distance) deque.unshift(next);
+        else deque.push(next);
+      });
+    }
+  });
+
+  return neighbourhood;
+};
+
+/** True if the table links to something outside the neighbourhood. */
+export const isNeighbourhoodBoundary = (
+  tables: Map<string, NeighbourhoodTable>,
+  tableName: string,
+  neighbourhood: Set<string>
+): boolean => neighboursOf(tables, tableName).some(next => !neighbourhood.has(next));
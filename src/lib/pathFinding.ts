@@ -0,0 +1,114 @@
+// Paths from one table to another along the lineage, to answer how data in
+// a source ends up in a downstream table.
+
+export interface PathQuery {
+  source: string;
+  target: string;
+  /** Also list the other simple paths, not just the shortest one. */
+  includeAllPaths: boolean;
+  limit: number;
+}
+
+export interface PathGraphTable {
+  parents: string[];
+  children: string[];
+}
+
+export interface TracedPaths {
+  /** Shortest path first, then the others by length. */
+  paths: string[][];
+  /** True if more paths exist than the limit allowed. */
+  truncated: boolean;
+}
+
+export const DEFAULT_PATH_LIMIT = 20;
+
+const sortedNeighbours = (tables: Map<string, PathGraphTable>, tableName: string, key: 'parents' | 'children') =>
+  [...(tables.get(tableName)?.[key] || [])].sort();
+
+/** Tables and links a path search must not use. */
+interface PathExclusions {
+  tables: Set<string>;
+  links: Set<string>;
+}
+
+const linkKey = (parent: string, child: string) => `${parent}\n${child}`;
+
+// Breadth-first search; neighbours are visited in name order so ties break
+// the same way every time
+const shortestPathAvoiding = (
+  tables: Map<string, PathGraphTable>,
+  source: string,
+  target: string,
+  exclusions?: PathExclusions
+): string[] | null => {
+  if (!tables.has(source) || !tables.has(target)) return null;
+  const previous = new Map<string, string | null>([[source, null]]);
+  const queue = [source];
+
+  for (let head = 0; head < queue.length; head++) {
+    const tableName = queue[head];
+    if (tableName === target) {
+      const path: string[] = [];
+      for (let step: string | null = target; step !== null; step = previous.get(step)!) path.unshift(step);
+      return path;
+    }
+    sortedNeighbours(tables, tableName, 'children').forEach(child => {
+      if (previous.has(child) || exclusions?.tables.has(child) || exclusions?.links.has(linkKey(tableName, child))) return;
+      previous.set(child, tableName);
+      queue.push(child);
+    });
+  }
+  return null;
+};
+
+export const findShortestPath = (tables: Map<string, PathGraphTable>, source: string, target: string): string[] | null =>
+  shortestPathAvoiding(tables, source, target);
+
+/**
+ * The `limit` shortest simple paths (no table visited twice), shortest
+ * first, by Yen's algorithm: each further path leaves an earlier one at some
+ * table and takes the shortest way on from there that avoids the tables
+ * before it and the links the earlier paths took next. The work grows with
+ * `limit`, not with the number of paths in the graph.
+ */
+export const findPaths = (
+  tables: Map<string, PathGraphTable>,
+  source: string,
+  target: string,
+  limit: number
+): TracedPaths => {
+  const shortest = findShortestPath(tables, source, target);
+  if (!shortest) return { paths: [], truncated: false };
+  if (limit <= 1) return { paths: [shortest], truncated: false };
+
+  const paths = [shortest];
+  const candidates = new Map<string, string[]>();
+  // One path more than the limit tells whether the list was truncated
+  while (paths.length <= limit) {
+    const last = paths[paths.length - 1];
+    for (let spurIndex = 0; spurIndex < last.length - 1; spurIndex++) {
+      const root = last.slice(0, spurIndex + 1);
+      const exclusions: PathExclusions = { tables: new Set(root.slice(0, -1)), links: new Set() };
+      paths.forEach(path => {
+        if (path.length > spurIndex + 1 && root.every((tableName, index) => path[index] === tableName)) {
+          exclusions.links.add(linkKey(path[spurIndex], path[spurIndex + 1]));
+        }
+      });
+      const spur = shortestPathAvoiding(tables, last[spurIndex], target, exclusions);
+      if (!spur) continue;
+      const candidate = [...root.slice(0, -1), ...spur];
+      candidates.set(candidate.join('\n'), candidate);
+    }
+    if (candidates.size === 0) break;
+
+    // Shortest candidate next, ties in name order
+    const [key, next] = Array.from(candidates.entries()).reduce((best, entry) =>
+      entry[1].length < best[1].length || (entry[1].length === best[1].length && entry[0] < best[0]) ? entry : best
+    );
+    candidates.delete(key);
+    paths.push(next);
+  }
+
+  return { paths: paths.slice(0, limit), truncated: paths.length > limit };
+};
@@ -0,0 +1,155 @@
+// Grouping of tables into containers: by the qualifier of fully qualified
+// names (`db.schema.table`), by table type, or by the value of any extra
+// column of the lineage file.
+
+import { CsvDocument } from '@/lib/csv';
+
+export type GroupingMode =
+  | { kind: 'database' }
+  | { kind: 'schema' }
+  | { kind: 'type' }
+  | { kind: 'column'; column: string };
+
+export interface GroupingColumn {
+  /** Header to group by; for a child/parent pair, the child header. */
+  column: string;
+  label: string;
+}
+
+export interface TableGroup {
+  id: string;
+  label: string;
+  tables: string[];
+}
+
+const REQUIRED_COLUMNS = ['childtablename', 'childtabletype', 'relationship', 'parenttablename', 'parenttabletype'];
+
+/** Split a qualified name on dots outside "quoted", `quoted` and [bracketed] parts. */
+export const splitQualifiedName = (name: string): string[] => {
+  const parts: string[] = [];
+  let part = '';
+  let closing = '';
+  for (const char of name) {
+    if (closing) {
+      if (char === closing) closing = '';
+    } else if (char === '"' || char === '`') {
+      closing = char;
+    } else if (char === '[') {
+      closing = ']';
+    } else if (char === '.') {
+      parts.push(part);
+      part = '';
+      continue;
+    }
+    part += char;
+  }
+  parts.push(part);
+  return parts;
+};
+
+/** Everything before the table name, e.g. `db.schema` for `db.schema.table`. */
+const schemaOf = (tableName: string): string => splitQualifiedName(tableName).slice(0, -1).join('.');
+
+/** The database part, known only for names with three or more parts. */
+const databaseOf = (tableName: string): string => {
+  const parts = splitQualifiedName(tableName);
+  return parts.length >= 3 ? parts[0] : '';
+};
+
+/** The child side of a childX/parentX header pair, if `header` is part of one. */
+const counterpartOf = (header: string, headers: string[]): string | undefined => {
+  const match = /^(child|parent)(.+)$/i.exec(header);
+  if (!match) return undefined;
+  const other = match[1].toLowerCase() === 'child' ? 'parent' : 'child';
+  return headers.find(candidate => candidate.toLowerCase() === `${other}${match[2].toLowerCase()}`);
+};
+
+/** Extra columns that can be grouped by; childX/parentX pairs are offered once. */
+export const groupingColumns = (headers: string[]): GroupingColumn[] => {
+  const columns: GroupingColumn[] = [];
+  headers.forEach(header => {
+    const lower = header.toLowerCase();
+    if (REQUIRED_COLUMNS.includes(lower)) return;
+    const counterpart = counterpartOf(header, headers);
+    if (!counterpart) {
+      columns.push({ column: header, label: header });
+    } else if (lower.startsWith('child')) {
+      columns.push({ column: header, label: `${header.slice('child'.length)} (child/parent)` });
+    }
+  });
+  return columns;
+};
+
+/**
+ * Value of a column for each table. A childX/parentX pair gives each table
+ * the value from its own side; any other column describes the row, and a
+ * table takes it from the first row that produces it, falling back to the
+ * first row that reads from it.
+ */
+const columnValues = (csvData: CsvDocument, column: string): Map<string, string> => {
+  const headers = csvData.headers.map(header => header.toLowerCase());
+  const childIndex = headers.indexOf('childtablename');
+  const parentIndex = headers.indexOf('parenttablename');
+  const columnIndex = headers.indexOf(column.toLowerCase());
+  const counterpart = counterpartOf(column, csvData.headers);
+  const counterpartIndex = counterpart ? headers.indexOf(counterpart.toLowerCase()) : -1;
+
+  const asChild = new Map<string, string>();
+  const asParent = new Map<string, string>();
+  const remember = (map: Map<string, string>, tableName: string | undefined, value: string | undefined) => {
+    if (tableName && value && !map.has(tableName)) map.set(tableName, value);
+  };
+
+  csvData.rows.forEach(row => {
+    remember(asChild, row[childIndex], row[columnIndex]);
+    remember(asParent, row[parentIndex], counterpart ? row[counterpartIndex] : row[columnIndex]);
+  });
+
+  asParent.forEach((value, tableName) => {
+    if (!asChild.has(tableName)) asChild.set(tableName, value);
+  });
+  return asChild;
+};
+
+/** Group key of each table; tables without one stay ungrouped. */
+export const groupTables = (
+  mode: GroupingMode,
+  tables: Map<string, { type: string }>,
+  csvData: CsvDocument
+): Map<string, string> => {
+  const keys = new Map<string, string>();
+  const values = mode.kind === 'column' ? columnValues(csvData, mode.column) : null;
+
+  tables.forEach(({ type }, tableName) => {
+    let key = '';
+    if (mode.kind === 'database') key = databaseOf(tableName);
+    else if (mode.kind === 'schema') key = schemaOf(tableName);
+    else if (mode.kind === 'type') key = type;
+    else key = values!.get(tableName) || '';
+    if (key) keys.set(tableName, key);
+  });
+  return keys;
+};
+
+export const groupNodeId = (key: string): string => `group:${key}`;
+
+/** Groups of the given tables, by label. */
+export const buildTableGroups = (tableNames: string[], keys: Map<string, string>): TableGroup[] => {
+  const groups = new Map<string, TableGroup>();
+  tableNames.forEach(tableName => {
+    const key = keys.get(tableName);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, { id: groupNodeId(key), label: key, tables: [] });
+    groups.get(key)!.tables.push(tableName);
+  });
+  return Array.from(groups.values()).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const groupingModeValue = (mode: GroupingMode | null): string =>
+  !mode ? 'none' : mode.kind === 'column' ? `column:${mode.column}` : mode.kind;
+
+export const parseGroupingModeValue = (value: string): GroupingMode | null => {
+  if (value === 'database' || value === 'schema' || value === 'type') return { kind: value };
+  if (value.startsWith('column:')) return { kind: 'column', column: value.slice('column:'.length) };
+  return null;
+};
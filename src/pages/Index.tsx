@@ -1,116 +1,243 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import Logo from '@/components/Logo';
 import FileUpload from '@/components/FileUpload';
 import CsvTable from '@/components/CsvTable';
 import DataLineageGraph from '@/components/DataLineageGraph';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { FilterResult, useLineageWorker } from '@/hooks/useLineageWorker';
 import DataLineageFilters, { FilterState } from '@/components/DataLineageFilters';
+import HeaderMappingDialog from '@/components/HeaderMappingDialog';
+import ValidationReportDialog from '@/components/ValidationReportDialog';
+import SheetPickerDialog from '@/components/SheetPickerDialog';
+import { AlertTriangle } from 'lucide-react';
+import { CsvDocument, EMPTY_CSV } from '@/lib/csv';
+import {
+  HeaderMapping,
+  applyHeaderMapping,
+  loadSavedMapping,
+  saveMapping,
+  suggestHeaderMapping,
+} from '@/lib/headerMapping';
+import { ImportOptions, isWorkbookFile } from '@/lib/importers';
+import { PathQuery } from '@/lib/pathFinding';
+import { HideRule, loadHideRules, saveHideRules } from '@/lib/hideRules';
+import { LineageSourceSummary } from '@/lib/lineageSources';
+import { ValidationIssue } from '@/lib/lineageValidation';
+import type { MappedSource } from '@/workers/lineageWorker';
+
+interface PendingMapping {
+  sources: LineageSourceSummary[];
+  /** Position of the source being mapped in `sources`. */
+  index: number;
+  initialMapping: HeaderMapping;
+  // Sources still to map, and those already mapped, when several were loaded
+  remaining: number[];
+  mapped: MappedSource[];
+}
 
 const Index = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [csvData, setCsvData] = useState<string[][]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [csvData, setCsvData] = useState<CsvDocument>(EMPTY_CSV);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [showLineageGraph, setShowLineageGraph] = useState(false);
   const { toast } = useToast();
+  const { load, listSheets, cancel, complete, filter, progress } = useLineageWorker();
 
   // Multi-column filter state
   const [filters, setFilters] = useState<FilterState>({});
+  const [filterResult, setFilterResult] = useState<FilterResult | null>(null);
   
   // Hidden nodes state
   const [hiddenNodes, setHiddenNodes] = useState<Set<string>>(new Set());
 
-  const validateCSVStructure = (headers: string[]): boolean => {
-    const expectedHeaders = [
-      'childTableName',
-      'childTableType',
-      'relationship',
-      'parentTableName',
-      'parentTableType'
-    ];
-    const normalizedHeaders = headers.map(h => h.toLowerCase().replace(/\s+/g, ''));
-    return expectedHeaders.every(expected =>
-      normalizedHeaders.includes(expected.toLowerCase())
-    );
-  };
+  // Tables currently drawn in the graph, for downloading only their rows
+  const [visibleTables, setVisibleTables] = useState<Set<string> | null>(null);
+
+  // Saved rules hiding whole classes of tables; they outlive the loaded files
+  const [hideRules, setHideRules] = useState<HideRule[]>(loadHideRules);
+
+  useEffect(() => {
+    saveHideRules(hideRules);
+  }, [hideRules]);
+
+  // Source and target of the traced path
+  const [pathQuery, setPathQuery] = useState<PathQuery | null>(null);
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
+  // Sheets of a workbook waiting for the user to pick from
+  const [pendingSheetNames, setPendingSheetNames] = useState<string[] | null>(null);
+
+  // File waiting for the user to map its columns
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+
+  // Row-level problems found in the loaded files
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [showValidationReport, setShowValidationReport] = useState(false);
+
+  // Name shown for the loaded files
+  const sourceName = selectedFiles.length === 1
+    ? selectedFiles[0].name
+    : selectedFiles.length > 1 ? `${selectedFiles.length} files` : 'Unknown';
+
+  const handleFilesSelect = (files: File[]) => {
+    setSelectedFiles(files);
     setShowResults(false);
-    setCsvData([]);
+    setCsvData(EMPTY_CSV);
+    setFilterResult(null);
+    setValidationIssues([]);
     setFilters({});
     setHiddenNodes(new Set());
+    setPathQuery(null);
   };
 
   const handleClearFile = () => {
-    setSelectedFile(null);
+    setSelectedFiles([]);
     setShowResults(false);
     setShowLineageGraph(false);
-    setCsvData([]);
+    setCsvData(EMPTY_CSV);
+    setFilterResult(null);
+    setValidationIssues([]);
     setHiddenNodes(new Set());
-  };
-
-  const parseCSV = (text: string): string[][] => {
-    const lines = text.split('\n');
-    const result: string[][] = [];
-    for (const line of lines) {
-      if (line.trim()) {
-        const values = line.split(',').map(value => value.trim().replace(/^"|"$/g, ''));
-        result.push(values);
-      }
-    }
-    return result;
+    setPathQuery(null);
   };
 
   const handleGenerateLineage = async () => {
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       toast({
         title: "No file selected",
-        description: "Please select a CSV file first.",
+        description: "Please select a lineage file first.",
         variant: "destructive",
       });
       return;
     }
 
+    // Workbooks with several sheets ask which of them hold the lineage
+    if (selectedFiles.length === 1 && isWorkbookFile(selectedFiles[0])) {
+      try {
+        const sheetNames = await listSheets(selectedFiles[0]);
+        if (sheetNames.length > 1) {
+          setPendingSheetNames(sheetNames);
+          return;
+        }
+      } catch (error) {
+        toast({
+          title: "Error processing file",
+          description: error instanceof Error ? error.message : "There was an error reading the file.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    await loadLineage();
+  };
+
+  const loadLineage = async (options?: ImportOptions) => {
     setIsProcessing(true);
 
     try {
-      const text = await selectedFile.text();
-      const parsed = parseCSV(text);
+      const sources = await load(selectedFiles, options);
 
-      if (parsed.length === 0) {
+      if (!sources) {
         toast({
-          title: "Empty file",
-          description: "The selected file appears to be empty.",
-          variant: "destructive",
+          title: "Processing cancelled",
+          description: `Stopped reading ${sourceName}.`,
         });
         return;
       }
 
-      // Validate CSV structure
-      const headers = parsed[0];
-      if (!validateCSVStructure(headers)) {
+      const skipped = sources.filter(source => source.skipReason);
+      if (skipped.length > 0) {
         toast({
-          title: "CSV File not in proper format",
-          description: "CSV must have minimum 5 columns: childTableName, childTableType, relationship, parentTableName, parentTableType",
+          title: `Skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'}`,
+          description: skipped.map(({ fileName, skipReason }) => `${fileName}: ${skipReason}`).join('; '),
+        });
+      }
+
+      const nonEmptySources = sources.flatMap((source, index) => (source.headers.length > 0 ? [index] : []));
+      if (nonEmptySources.length === 0) {
+        toast({
+          title: "Empty file",
+          description: "The selected file appears to be empty.",
           variant: "destructive",
         });
         return;
       }
 
-      setCsvData(parsed);
-      setShowResults(true);
-      setShowLineageGraph(true);
+      await mapSources(sources, nonEmptySources, []);
+    } catch (error) {
+      toast({
+        title: "Error processing file",
+        description: error instanceof Error ? error.message : "There was an error reading the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Validate CSV structure file by file: standard headers load directly, a
+  // layout mapped before reuses its mapping, anything else asks the user.
+  const mapSources = async (sources: LineageSourceSummary[], remaining: number[], mapped: MappedSource[]) => {
+    for (let position = 0; position < remaining.length; position++) {
+      const index = remaining[position];
+      const { headers } = sources[index];
+      const { mapping, exact } = suggestHeaderMapping(headers);
+      const savedMapping = exact ? null : loadSavedMapping(headers);
+
+      if (!exact && !savedMapping) {
+        setPendingMapping({ sources, index, initialMapping: mapping, remaining: remaining.slice(position + 1), mapped });
+        return;
+      }
+      mapped = [...mapped, { index, headers: applyHeaderMapping(headers, exact ? mapping : savedMapping) }];
+    }
+    await completeImport(mapped);
+  };
+
+  const completeImport = async (mapped: MappedSource[]) => {
+    // Validation and merging run in the worker, which then hands the rows over
+    const { document: lineage, issues } = await complete(mapped);
 
+    setFilterResult(null);
+    setCsvData(lineage);
+    setValidationIssues(issues);
+    setShowValidationReport(issues.length > 0);
+    setShowResults(true);
+    setShowLineageGraph(true);
+
+    if (issues.length > 0) {
+      toast({
+        title: `Loaded ${lineage.rows.length} data rows with ${issues.length} problem(s)`,
+        description: `See the validation report for details on ${sourceName}.`,
+      });
+    } else {
       toast({
         title: "File processed successfully",
-        description: `Loaded ${parsed.length - 1} data rows from ${selectedFile.name}`,
+        description: `Loaded ${lineage.rows.length} data rows from ${sourceName}`,
       });
+    }
+  };
+
+  const handleSheetsConfirm = (sheetNames: string[]) => {
+    setPendingSheetNames(null);
+    loadLineage({ sheetNames });
+  };
+
+  const handleMappingConfirm = async (mapping: HeaderMapping) => {
+    if (!pendingMapping) return;
+    const { sources, index, remaining, mapped } = pendingMapping;
+    const { headers } = sources[index];
+    saveMapping(headers, mapping);
+    setPendingMapping(null);
+    setIsProcessing(true);
+    try {
+      await mapSources(sources, remaining, [...mapped, { index, headers: applyHeaderMapping(headers, mapping) }]);
     } catch (error) {
       toast({
         title: "Error processing file",
-        description: "There was an error reading the CSV file.",
+        description: error instanceof Error ? error.message : "There was an error reading the file.",
         variant: "destructive",
       });
     } finally {
@@ -118,37 +245,55 @@ const Index = () => {
     }
   };
 
-  // Convert CSV data to array of objects for filtering
-  const dataForFiltering = useMemo(() => {
-    if (csvData.length === 0) return [];
-    const headers = csvData[0];
-    return csvData.slice(1).map(row => 
-      headers.reduce((obj, header, index) => ({
-        ...obj,
-        [header]: row[index] || ''
-      }), {})
-    );
-  }, [csvData]);
-
-  // Filter the data based on current filters
-  const filteredData = useMemo(() => {
-    return dataForFiltering.filter(row => {
-      return Object.entries(filters).every(([column, selectedValues]) => {
-        if (selectedValues.length === 0) return true;
-        return selectedValues.includes(String(row[column]));
-      });
+  const handleMappingCancel = () => {
+    setPendingMapping(null);
+    toast({
+      title: "CSV File not in proper format",
+      description: "Lineage files need at least a child table, relationship and parent table column",
+      variant: "destructive",
     });
-  }, [dataForFiltering, filters]);
-
-  // Convert filtered data back to CSV format for the table
-  const filteredCsvData = useMemo(() => {
-    if (csvData.length === 0) return [];
-    const headers = csvData[0];
-    const filteredRows = filteredData.map(row => 
-      headers.map(header => row[header] || '')
-    );
-    return [headers, ...filteredRows];
-  }, [csvData, filteredData]);
+  };
+
+  // Filtering runs in the worker against the rows it parsed
+  useEffect(() => {
+    if (csvData.headers.length === 0) return;
+    let stale = false;
+    filter(filters)
+      .then(result => {
+        if (!stale) setFilterResult(result);
+      })
+      .catch(error => console.error('Failed to filter lineage data', error));
+    return () => {
+      stale = true;
+    };
+  }, [csvData, filters, filter]);
+
+  const relationshipColumn = csvData.headers.find(header => header.trim().toLowerCase() === 'relationship');
+
+  // Edge menu actions, applied as filters on the relationship column
+  const handleHideRelationship = (relationship: string) => {
+    if (!relationshipColumn) return;
+    const current = filters[relationshipColumn]?.length
+      ? filters[relationshipColumn]
+      : filterResult?.availableValues[relationshipColumn] || [];
+    const remaining = current.filter(value => value !== relationship);
+    if (remaining.length === 0 || remaining.length === current.length) return;
+    setFilters({ ...filters, [relationshipColumn]: remaining });
+  };
+
+  const handleFilterToRelationship = (relationship: string) => {
+    if (!relationshipColumn) return;
+    setFilters({ ...filters, [relationshipColumn]: [relationship] });
+  };
+
+  const mappingSource = pendingMapping ? pendingMapping.sources[pendingMapping.index] : null;
+
+  // Rows that pass the current filters, in file order
+  const filteredCsvData = useMemo((): CsvDocument => {
+    if (!filterResult) return csvData;
+    const rows = Array.from(filterResult.rowIndexes, index => csvData.rows[index]);
+    return { headers: csvData.headers, rows };
+  }, [csvData, filterResult]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
@@ -165,13 +310,13 @@ const Index = () => {
           /* Upload Section */
           <div className="space-y-8">
             <FileUpload
-              onFileSelect={handleFileSelect}
-              selectedFile={selectedFile}
+              onFilesSelect={handleFilesSelect}
+              selectedFiles={selectedFiles}
               onClearFile={handleClearFile}
             />
 
-            {selectedFile && (
-              <div className="flex justify-center">
+            {selectedFiles.length > 0 && (
+              <div className="flex flex-col items-center gap-4">
                 <Button
                   onClick={handleGenerateLineage}
                   disabled={isProcessing}
@@ -180,6 +325,20 @@ const Index = () => {
                 >
                   {isProcessing ? 'Processing...' : 'Generate Lineage'}
                 </Button>
+
+                {isProcessing && progress && (
+                  <div className="w-full max-w-2xl space-y-2">
+                    <Progress
+                      value={progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0}
+                    />
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>{progress.rowCount.toLocaleString()} rows read</span>
+                      <Button variant="ghost" size="sm" onClick={cancel}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -188,26 +347,42 @@ const Index = () => {
           <div className="space-y-6">
             <div className="flex items-center justify-between">
               <h2 className="text-2xl font-bold text-foreground">Data Lineage Results</h2>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowResults(false);
-                  setShowLineageGraph(false);
-                }}
-              >
-                Upload New File
-              </Button>
+              <div className="flex items-center gap-2">
+                {validationIssues.length > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowValidationReport(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <AlertTriangle className="h-4 w-4 text-destructive" />
+                    Validation Report ({validationIssues.length})
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setShowResults(false);
+                    setShowLineageGraph(false);
+                  }}
+                >
+                  Upload New File
+                </Button>
+              </div>
             </div>
             
             {/* Filters */}
-            {csvData.length > 0 && (
+            {csvData.headers.length > 0 && (
               <DataLineageFilters
-                data={dataForFiltering}
-                columns={csvData[0]}
+                availableValues={filterResult?.availableValues || {}}
+                columns={csvData.headers}
                 filters={filters}
                 onFiltersChange={setFilters}
                 hiddenNodes={hiddenNodes}
                 onHiddenNodesChange={setHiddenNodes}
+                hideRules={hideRules}
+                onHideRulesChange={setHideRules}
+                pathQuery={pathQuery}
+                onPathQueryChange={setPathQuery}
               />
             )}
 
@@ -218,17 +393,57 @@ const Index = () => {
                   csvData={filteredCsvData} 
                   hiddenNodes={hiddenNodes}
                   onHiddenNodesChange={setHiddenNodes}
+                  hideRules={hideRules}
+                  onVisibleTablesChange={setVisibleTables}
+                  pathQuery={pathQuery}
+                  onPathQueryChange={setPathQuery}
+                  onHideRelationship={handleHideRelationship}
+                  onFilterToRelationship={handleFilterToRelationship}
+                  filters={filters}
+                  sourceName={sourceName}
                 />
               </div>
             )}
 
             <CsvTable
-              filePath={selectedFile?.name || 'Unknown'}
+              filePath={sourceName}
               csvData={filteredCsvData}
-              fileName={selectedFile?.name || 'Unknown'}
+              fileName={sourceName}
+              visibleTables={showLineageGraph ? visibleTables : null}
             />
           </div>
         )}
+
+        <ValidationReportDialog
+          open={showValidationReport}
+          onOpenChange={setShowValidationReport}
+          fileName={sourceName}
+          issues={validationIssues}
+        />
+
+        {pendingSheetNames && (
+          <SheetPickerDialog
+            open
+            fileName={sourceName}
+            sheetNames={pendingSheetNames}
+            onConfirm={handleSheetsConfirm}
+            onCancel={() => setPendingSheetNames(null)}
+          />
+        )}
+
+        {pendingMapping && mappingSource && (
+          <HeaderMappingDialog
+            // File names can repeat across folders; the position in the load cannot
+            key={pendingMapping.index}
+            open
+            fileName={mappingSource.fileName}
+            headers={mappingSource.headers}
+            previewRows={mappingSource.previewRows}
+            initialMapping={pendingMapping.initialMapping}
+            onConfirm={handleMappingConfirm}
+            onCancel={handleMappingCancel}
+          />
+        )}
       </div>
     </div>
   );
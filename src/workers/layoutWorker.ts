@@ -0,0 +1,25 @@
+// Lays out large lineage graphs off the main thread.
+
+import { computeLayout, LayoutEdge, LayoutNode, LayoutPositions } from '@/lib/graphLayout';
+
+export interface LayoutWorkerRequest {
+  requestId: number;
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+}
+
+export type LayoutWorkerResponse =
+  | { requestId: number; positions: LayoutPositions }
+  | { requestId: number; error: string };
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const { requestId, nodes, edges } = event.data;
+  try {
+    self.postMessage({ requestId, positions: computeLayout(nodes, edges) } satisfies LayoutWorkerResponse);
+  } catch (error) {
+    self.postMessage({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    } satisfies LayoutWorkerResponse);
+  }
+};
@@ -0,0 +1,351 @@
+// Off-main-thread ingestion of lineage files.
+//
+// The worker streams the selected file through the incremental CSV parser,
+// reporting progress as it goes. Other formats go through their importer and
+// end up as the same rows. When several files are loaded, each is its own
+// source; the page only gets their headers and a preview until they are
+// mapped, then they are validated and merged here and the rows are handed
+// over once. The worker keeps just a compact copy of the columns, so that
+// filtering can be answered here without blocking the UI.
+
+import { CsvDocument, createCsvParser, CsvParser, detectDelimiter, ParsedCsv } from '@/lib/csv';
+
+import {
+  ImportOptions,
+  groupLineageFiles,
+  importLineageFiles,
+  isCsvFile,
+  lineageSourceName,
+} from '@/lib/importers';
+import { LineageSource, LineageSourceSummary, mergeLineageSources } from '@/lib/lineageSources';
+import { ValidationIssue, findCrossFileTypeConflicts, validateLineage } from '@/lib/lineageValidation';
+import { listWorkbookSheets } from '@/lib/importers/workbook';
+import type { FilterState } from '@/components/DataLineageFilters';
+
+export type LineageWorkerRequest =
+  | { type: 'load'; requestId: number; files: File[]; paths: string[]; options?: ImportOptions }
+  | { type: 'listSheets'; requestId: number; file: File }
+  | { type: 'cancel' }
+  | { type: 'complete'; requestId: number; sources: MappedSource[] }
+  | { type: 'filter'; requestId: number; filters: FilterState };
+
+export type LineageWorkerResponse =
+  | { type: 'progress'; requestId: number; rowCount: number; bytesRead: number; totalBytes: number }
+  | { type: 'loaded'; requestId: number; sources: LineageSourceSummary[] }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'sheets'; requestId: number; sheetNames: string[] }
+  | { type: 'completed'; requestId: number; document: CsvDocument; issues: ValidationIssue[] }
+  | { type: 'filtered'; requestId: number; rowIndexes: Uint32Array; availableValues: Record<string, string[]> }
+  | { type: 'error'; requestId: number; message: string };
+
+/** A loaded source, by its position in the load, with its headers mapped. */
+export interface MappedSource {
+  index: number;
+  headers: string[];
+}
+
+// Values of one column, each stored once, and every row's index into them
+interface FilterColumn {
+  values: string[];
+  codes: Uint32Array;
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+const PREVIEW_ROW_COUNT = 5;
+
+let loadedSources: LineageSource[] = [];
+let headers: string[] = [];
+let filterColumns: FilterColumn[] = [];
+let rowCount = 0;
+let activeReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+let cancelled = false;
+
+const post = (message: LineageWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Running totals across the files of one load request
+interface LoadProgress {
+  requestId: number;
+  rowCount: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+const reportProgress = (progress: LoadProgress, rowCount: number, bytesRead: number) => {
+  post({
+    type: 'progress',
+    requestId: progress.requestId,
+    rowCount: progress.rowCount + rowCount,
+    bytesRead: progress.bytesRead + bytesRead,
+    totalBytes: progress.totalBytes,
+  });
+};
+
+const importFiles = async (files: File[], options?: ImportOptions): Promise<ParsedCsv | null> => {
+  const imported = await importLineageFiles(files, options);
+  return cancelled ? null : imported;
+};
+
+/** Parses a CSV file as it is read. Resolves with null if the load was cancelled. */
+const streamCsv = async (file: File, progress: LoadProgress): Promise<ParsedCsv | null> => {
+  const nextHeaders: string[][] = [];
+  const nextRows: string[][] = [];
+  const rowLines: number[] = [];
+  const decoder = new TextDecoder('utf-8');
+  const reader = file.stream().getReader();
+  activeReader = reader;
+
+  let parser: CsvParser | null = null;
+  let bytesRead = 0;
+  let lastProgress = 0;
+
+  const onRow = (fields: string[], line: number) => {
+    if (nextHeaders.length === 0) {
+      nextHeaders.push(fields);
+    } else {
+      nextRows.push(fields);
+      rowLines.push(line);
+    }
+  };
+
+  const pushText = (text: string) => {
+    if (!parser) {
+      if (text.length === 0) return;
+      parser = createCsvParser(onRow, { delimiter: detectDelimiter(text) });
+    }
+    parser.push(text);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (cancelled) return null;
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      pushText(decoder.decode(value, { stream: true }));
+
+      const now = Date.now();
+      if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = now;
+        reportProgress(progress, nextRows.length, bytesRead);
+      }
+    }
+
+    pushText(decoder.decode());
+    parser?.end();
+  } finally {
+    activeReader = null;
+  }
+
+  return { headers: nextHeaders[0] || [], rows: nextRows, errors: parser ? parser.errors : [], rowLines };
+};
+
+const loadFiles = async (requestId: number, files: File[], paths: string[], options?: ImportOptions) => {
+  loadedSources = [];
+  headers = [];
+  filterColumns = [];
+  rowCount = 0;
+  cancelled = false;
+
+  const progress: LoadProgress = {
+    requestId,
+    rowCount: 0,
+    bytesRead: 0,
+    totalBytes: files.reduce((total, file) => total + file.size, 0),
+  };
+  const sources: LineageSource[] = [];
+  const groups = groupLineageFiles(files);
+  const pathOf = (file: File) => paths[files.indexOf(file)] || file.name;
+
+  for (const group of groups) {
+    const fileName = lineageSourceName(group, pathOf);
+    let parsed: ParsedCsv | null;
+    try {
+      parsed = group.length === 1 && isCsvFile(group[0])
+        ? await streamCsv(group[0], progress)
+        : await importFiles(group, options);
+    } catch (error) {
+      // One unreadable file should not stop the rest of a folder from loading
+      if (groups.length === 1) throw error;
+      const skipReason = error instanceof Error ? error.message : String(error);
+      sources.push({ fileName, headers: [], rows: [], errors: [], skipReason });
+      continue;
+    }
+    if (!parsed) {
+      post({ type: 'cancelled', requestId });
+      return;
+    }
+
+    sources.push({ fileName, ...parsed });
+    progress.rowCount += parsed.rows.length;
+    progress.bytesRead += group.reduce((total, file) => total + file.size, 0);
+    reportProgress(progress, 0, 0);
+  }
+
+  if (sources.every(source => source.skipReason)) {
+    throw new Error(sources.map(({ fileName, skipReason }) => `${fileName}: ${skipReason}`).join('; '));
+  }
+
+  // Sources are validated and merged once their headers are mapped
+  loadedSources = sources;
+  post({
+    type: 'loaded',
+    requestId,
+    sources: sources.map(({ fileName, headers, rows, skipReason }) => ({
+      fileName,
+      headers,
+      rowCount: rows.length,
+      previewRows: rows.slice(0, PREVIEW_ROW_COUNT),
+      skipReason,
+    })),
+  });
+};
+
+const encodeColumns = ({ headers, rows }: CsvDocument): FilterColumn[] =>
+  headers.map((_, columnIndex) => {
+    const codeOf = new Map<string, number>();
+    const values: string[] = [];
+    const codes = new Uint32Array(rows.length);
+    rows.forEach((row, rowIndex) => {
+      const value = row[columnIndex] || '';
+      let code = codeOf.get(value);
+      if (code === undefined) {
+        code = values.length;
+        codeOf.set(value, code);
+        values.push(value);
+      }
+      codes[rowIndex] = code;
+    });
+    return { values, codes };
+  });
+
+/**
+ * Validate the mapped sources, each on its own so that row numbers match
+ * its file, and hand their rows, merged when there are several, to the page.
+ */
+const completeLoad = (requestId: number, mappedSources: MappedSource[]) => {
+  const sources = mappedSources.map(({ index, headers }) => ({ ...loadedSources[index], headers }));
+  const issues = sources.length === 1
+    ? validateLineage(sources[0])
+    : [
+      ...sources.flatMap(source =>
+        validateLineage(source).map(issue => ({ ...issue, fileName: source.fileName }))
+      ),
+      ...findCrossFileTypeConflicts(sources),
+    ];
+
+  const merged = sources.length === 1 ? sources[0] : mergeLineageSources(sources);
+  const document = { headers: merged.headers, rows: merged.rows };
+  headers = document.headers;
+  filterColumns = encodeColumns(document);
+  rowCount = document.rows.length;
+  loadedSources = [];
+  post({ type: 'completed', requestId, document, issues });
+};
+
+const filterRows = (requestId: number, filters: FilterState) => {
+  // Only filters on columns that exist in the file and have a selection apply.
+  const activeFilters = Object.entries(filters)
+    .map(([column, selectedValues]) => ({ columnIndex: headers.indexOf(column), selectedValues }))
+    .filter(({ columnIndex, selectedValues }) => columnIndex !== -1 && selectedValues.length > 0)
+    .map(({ columnIndex, selectedValues }) => {
+      const selected = new Set(selectedValues);
+      const { values, codes } = filterColumns[columnIndex];
+      return { columnIndex, codes, selectedCodes: Uint8Array.from(values, value => (selected.has(value) ? 1 : 0)) };
+    });
+
+  const matching: number[] = [];
+  const available = filterColumns.map(({ values }) => new Uint8Array(values.length));
+
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+    // A column's available values ignore that column's own filter, so a row
+    // failing exactly one filter still contributes to the failing column.
+    let failedColumn = -1;
+    let failures = 0;
+    for (const { columnIndex, codes, selectedCodes } of activeFilters) {
+      if (!selectedCodes[codes[rowIndex]]) {
+        failedColumn = columnIndex;
+        if (++failures > 1) break;
+      }
+    }
+
+    if (failures === 0) {
+      matching.push(rowIndex);
+      for (let columnIndex = 0; columnIndex < filterColumns.length; columnIndex++) {
+        available[columnIndex][filterColumns[columnIndex].codes[rowIndex]] = 1;
+      }
+    } else if (failures === 1) {
+      available[failedColumn][filterColumns[failedColumn].codes[rowIndex]] = 1;
+    }
+  }
+
+  const availableValues: Record<string, string[]> = {};
+  headers.forEach((header, columnIndex) => {
+    availableValues[header] = filterColumns[columnIndex].values.filter((_, code) => available[columnIndex][code]).sort();
+  });
+
+  const rowIndexes = Uint32Array.from(matching);
+  post({ type: 'filtered', requestId, rowIndexes, availableValues }, [rowIndexes.buffer]);
+};
+
+self.onmessage = async (event: MessageEvent<LineageWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      try {
+        await loadFiles(message.requestId, message.files, message.paths, message.options);
+      } catch (error) {
+        post({
+          type: 'error',
+          requestId: message.requestId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+
+    case 'listSheets':
+      try {
+        const sheetNames = listWorkbookSheets(await message.file.arrayBuffer());
+        post({ type: 'sheets', requestId: message.requestId, sheetNames });
+      } catch (error) {
+        post({
+          type: 'error',
+          requestId: message.requestId,
+          message: `${message.file.name} could not be read as an Excel workbook: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+      break;
+
+    case 'cancel':
+      cancelled = true;
+      activeReader?.cancel().catch(() => undefined);
+      break;
+
+    case 'complete':
+      try {
+        completeLoad(message.requestId, message.sources);
+      } catch (error) {
+        post({
+          type: 'error',
+          requestId: message.requestId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+
+    case 'filter':
+      try {
+        filterRows(message.requestId, message.filters);
+      } catch (error) {
+        post({
+          type: 'error',
+          requestId: message.requestId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+  }
+};